@@ -7,12 +7,15 @@
  * See a full list of supported triggers at https://firebase.google.com/docs/functions
  */
 
-import * as functions from 'firebase-functions';
+// The callables below take `(data, context)`, which is the v1 API
+import * as functions from 'firebase-functions/v1';
 import * as admin from 'firebase-admin';
 import express from 'express';
 import cors from 'cors';
 import axios from 'axios';
 import { AccessToken } from 'livekit-server-sdk';
+import { INVITE_TTL_MS, checkRoomAccess, createInviteToken, getInviteSecret, hashPassword } from './roomAccess.js';
+import { CONTROL_MODES, canControl, checkModeration, isMuted } from './roomControl.js';
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -27,20 +30,42 @@ app.use(cors({
 }));
 app.use(express.json());
 
+// Firebase user behind the request's `Authorization: Bearer <ID token>`
+// header. Rejects requests without a valid token.
+const authenticate = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const [scheme, idToken] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !idToken) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  
+  try {
+    res.locals.authUser = await admin.auth().verifyIdToken(idToken);
+    return next();
+  } catch (error) {
+    console.warn('Rejected ID token:', error);
+    return res.status(401).json({ error: 'Invalid or expired ID token' });
+  }
+};
+
 // Basic route for health check
 app.get('/', (req, res) => {
   res.send('MovieMeet WebSocket Server is running');
 });
 
 // LiveKit token generation endpoint
-app.post('/generate-token', (req, res) => {
+app.post('/generate-token', authenticate, (req, res) => {
   try {
-    const { roomId, username } = req.body;
+    const { roomId, username, userId } = req.body;
+    const { uid } = res.locals.authUser;
     
     if (!roomId || !username) {
       return res.status(400).json({ error: 'roomId and username are required' });
     }
     
+    if (userId && userId !== uid) {
+      return res.status(403).json({ error: 'userId does not match the signed-in user' });
+    }
+    
     // Get LiveKit credentials from environment config
     const config = functions.config();
     const apiKey = config.livekit?.api_key;
@@ -55,8 +80,10 @@ app.post('/generate-token', (req, res) => {
     }
     
     // Create token with permissions
+    // Identify participants by user ID, since names aren't unique
     const at = new AccessToken(apiKey, apiSecret, {
-      identity: username,
+      identity: uid,
+      name: username,
     });
     
     at.addGrant({ 
@@ -78,6 +105,11 @@ app.post('/generate-token', (req, res) => {
 });
 
 // Archive.org proxy routes
+
+// How long to wait for Archive.org before giving up, so a stalled request
+// doesn't hold the function until it times out
+const ARCHIVE_TIMEOUT_MS = 10000;
+
 // Proxy route for Archive.org thumbnails
 app.get('/api/archive/thumbnail/:id', async (req, res) => {
   try {
@@ -90,7 +122,8 @@ app.get('/api/archive/thumbnail/:id', async (req, res) => {
     
     // Proxy the request to Archive.org
     const response = await axios.get(`https://archive.org/services/img/${id}`, {
-      responseType: 'stream'
+      responseType: 'stream',
+      timeout: ARCHIVE_TIMEOUT_MS
     });
     
     // Forward the response headers and data
@@ -114,7 +147,7 @@ app.get('/api/archive/validate/:id', async (req, res) => {
     }
     
     // Check if the ID exists by checking its metadata
-    const response = await axios.get(`https://archive.org/metadata/${id}`);
+    const response = await axios.get(`https://archive.org/metadata/${id}`, { timeout: ARCHIVE_TIMEOUT_MS });
     
     if (response.status === 200 && response.data && response.data.metadata) {
       return res.json({ 
@@ -134,6 +167,78 @@ app.get('/api/archive/validate/:id', async (req, res) => {
   }
 });
 
+// Video files a browser can play directly, by extension
+const ARCHIVE_MEDIA_TYPES: { [extension: string]: string } = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg'
+};
+
+// A file as listed in an item's Archive.org metadata
+interface ArchiveMetadataFile {
+  name: string;
+  format?: string;
+  private?: string;
+  size?: string;
+  width?: string;
+  height?: string;
+}
+
+// Playable derivatives of an Archive.org item, best quality first. Archive.org
+// derives MP4, WebM and OGV copies of uploaded videos, often at several sizes.
+// Only this proxy lists them; `server/proxy.js` doesn't.
+const getArchiveMediaFiles = (id: string, files: ArchiveMetadataFile[]) => {
+  return files
+    .filter(file => file.private !== 'true')
+    .map(file => {
+      const extension = file.name.split('.').pop()?.toLowerCase() || '';
+      const mimeType = ARCHIVE_MEDIA_TYPES[extension];
+      if (!mimeType) return null;
+
+      const height = parseInt(file.height || '', 10) || undefined;
+      return {
+        name: file.name,
+        url: `https://archive.org/download/${id}/${file.name.split('/').map(encodeURIComponent).join('/')}`,
+        mimeType,
+        format: file.format || extension.toUpperCase(),
+        label: height ? `${height}p` : file.format || extension.toUpperCase(),
+        width: parseInt(file.width || '', 10) || undefined,
+        height,
+        size: parseInt(file.size || '', 10) || undefined
+      };
+    })
+    .filter((file): file is NonNullable<typeof file> => file !== null)
+    // Tallest first; MP4 plays most widely, so it goes first at the same height
+    .sort((a, b) => (b.height || 0) - (a.height || 0) ||
+      Number(b.mimeType === 'video/mp4') - Number(a.mimeType === 'video/mp4'));
+};
+
+// Proxy route listing the video files of an Archive.org item we can play in
+// our own player, so playback can be synced
+app.get('/api/archive/media/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Validate ID format
+    if (!/^[a-zA-Z0-9._-]+$/.test(id)) {
+      return res.status(400).json({ error: 'Invalid Archive.org ID format' });
+    }
+    
+    const response = await axios.get(`https://archive.org/metadata/${id}`, { timeout: ARCHIVE_TIMEOUT_MS });
+    
+    // Archive.org answers unknown items with an empty object
+    if (!response.data || !response.data.metadata) {
+      return res.status(404).json({ error: 'Archive.org item not found' });
+    }
+    
+    res.set('Cache-Control', 'public, max-age=3600');
+    return res.json({ files: getArchiveMediaFiles(id, response.data.files || []) });
+  } catch (error) {
+    console.error('Error fetching Archive.org media files:', error);
+    return res.status(500).json({ error: 'Failed to fetch media files' });
+  }
+});
+
 // Create an HTTP function for the Express app
 export const api = functions.https.onRequest((req, res) => {
   // Set CORS headers for all responses
@@ -151,15 +256,104 @@ export const api = functions.https.onRequest((req, res) => {
   return app(req, res);
 });
 
-// For Firebase Realtime Database implementation to replace Socket.IO functionality
+// Rooms for the client's Firebase room transport (VITE_ROOM_TRANSPORT=firebase),
+// an alternative to the Socket.IO sync server. Clients only read
+// `rooms/<roomId>` (see database.rules.json); every change goes through these
+// functions. The first user in a room is its host, who decides who else may
+// control playback and change the movie (everyone, by default), may make the
+// room private and may moderate it. Users the host removes can read why under
+// `rooms/<roomId>/removed/<userId>`.
 
 // Map to store room data
 const roomsRef = admin.database().ref('rooms');
+// What the room's users mustn't read, such as its password hash, by room ID
+const roomSecretsRef = admin.database().ref('roomSecrets');
+
+// Typed playback actions, as on the sync server
+const PLAYBACK_ACTION_TYPES = ['play', 'pause', 'seek', 'rate', 'heartbeat'];
+
+// Display names nobody may use, so users can't pass for the server
+const RESERVED_USERNAMES = ['system'];
+
+// UID of the signed-in caller. Callable functions verify the ID token for us;
+// a `userId` the client sends must be its own.
+const requireAuth = (context: functions.https.CallableContext, claimedUserId?: string): string => {
+  const uid = context?.auth?.uid;
+  if (!uid) {
+    throw new functions.https.HttpsError('unauthenticated', 'Sign in required');
+  }
+  if (claimedUserId && claimedUserId !== uid) {
+    throw new functions.https.HttpsError('permission-denied', 'userId does not match the signed-in user');
+  }
+  return uid;
+};
+
+// The room a host-only function acts on, once the caller is known to host it
+const getHostedRoom = async (roomId: string, userId: string, notHostError: string) => {
+  if (!roomId) {
+    throw new functions.https.HttpsError('invalid-argument', 'roomId is required');
+  }
+  
+  const roomSnapshot = await roomsRef.child(roomId).once('value');
+  if (!roomSnapshot.exists()) {
+    throw new functions.https.HttpsError('not-found', 'Room not found');
+  }
+  
+  const room = roomSnapshot.val();
+  if (room.ownerId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', notHostError);
+  }
+  return room;
+};
+
+// The room a moderation function acts on, and the user it's aimed at
+const getModeratedRoom = async (roomId: string, userId: string, targetUserId: string) => {
+  const room = await getHostedRoom(roomId, userId, 'Only the host can moderate the room');
+  if (!targetUserId) {
+    throw new functions.https.HttpsError('invalid-argument', 'targetUserId is required');
+  }
+  if (targetUserId === userId) {
+    throw new functions.https.HttpsError('invalid-argument', "You can't moderate yourself");
+  }
+  return room;
+};
+
+// Take a user the host kicked or banned out of the room, noting why so they
+// can find out
+const removeUserByHost = (
+  room: {
+    users: Record<string, { username: string }>;
+    cohosts?: Record<string, boolean>;
+    removed?: Record<string, string>;
+    messages?: object[];
+  },
+  userId: string,
+  reason: 'kicked' | 'banned'
+) => {
+  const user = room.users[userId];
+  delete room.users[userId];
+  if (room.cohosts) {
+    delete room.cohosts[userId];
+  }
+  room.removed = { ...room.removed, [userId]: reason };
+  
+  if (!room.messages) {
+    room.messages = [];
+  }
+  
+  room.messages.push({
+    id: Date.now().toString(),
+    user: 'System',
+    text: `${user.username} was ${reason === 'banned' ? 'banned' : 'removed'} by the host`,
+    timestamp: Date.now()
+  });
+};
 
 // Function to handle room updates
 export const handleRoomJoin = functions.https.onCall(
-  async (data: Record<string, any>, context: any) => {
-    const { roomId, username } = data;
+  async (data: Record<string, any>, context: functions.https.CallableContext) => {
+    const { roomId, username, password, inviteToken } = data;
+    const userId = requireAuth(context, data.userId);
     
     if (!roomId || !username) {
       throw new functions.https.HttpsError(
@@ -168,21 +362,52 @@ export const handleRoomJoin = functions.https.onCall(
       );
     }
     
+    if (RESERVED_USERNAMES.includes(String(username).trim().toLowerCase())) {
+      throw new functions.https.HttpsError('invalid-argument', 'That name is reserved');
+    }
+    
     // Get current room or create a new one
     const roomSnapshot = await roomsRef.child(roomId).once('value');
     const room = roomSnapshot.exists() ? roomSnapshot.val() : { 
       users: {},
       videoState: {
         currentTime: 0,
-        isPlaying: false
+        isPlaying: false,
+        playbackRate: 1,
+        serverTime: Date.now(),
+        seq: 0
       },
       messages: []
     };
     
-    // Add user to room
-    // Using a default anonymous ID if auth is not available
-    const userId = (context && context.auth && context.auth.uid) || `anonymous-${Date.now()}`;
-    room.users[userId] = { username, userId, joinedAt: Date.now() };
+    const moderated = checkModeration(room, userId);
+    if (moderated) {
+      throw new functions.https.HttpsError('permission-denied', moderated.error, { passwordRequired: false });
+    }
+    
+    // Private rooms only let in who they admitted, or who brings the password
+    // or an invite
+    if (room.isPrivate) {
+      const secretsSnapshot = await roomSecretsRef.child(roomId).once('value');
+      const passwordHash = secretsSnapshot.val()?.passwordHash || null;
+      const denied = checkRoomAccess(room, roomId, userId, passwordHash, { password, inviteToken });
+      if (denied) {
+        throw new functions.https.HttpsError('permission-denied', denied.error, { passwordRequired: denied.passwordRequired });
+      }
+      room.admitted = { ...room.admitted, [userId]: true };
+    }
+    
+    // Add user to room, keeping when they first joined if they're rejoining
+    const joinedAt = room.users?.[userId]?.joinedAt || Date.now();
+    room.users = { ...room.users, [userId]: { username, userId, joinedAt } };
+    if (room.removed) {
+      delete room.removed[userId];
+    }
+    
+    // Whoever creates the room is its host
+    if (!room.ownerId || !room.users[room.ownerId]) {
+      room.ownerId = userId;
+    }
     
     // Add system message
     const messageId = Date.now().toString();
@@ -208,7 +433,7 @@ export const handleRoomJoin = functions.https.onCall(
 
 // Handle leaving a room
 export const handleRoomLeave = functions.https.onCall(
-  async (data: Record<string, any>, context: any) => {
+  async (data: Record<string, any>, context: functions.https.CallableContext) => {
     const { roomId } = data;
     
     if (!roomId) {
@@ -218,14 +443,7 @@ export const handleRoomLeave = functions.https.onCall(
       );
     }
     
-    // Using a default or provided userId if auth is not available
-    const userId = (context && context.auth && context.auth.uid) || data.userId;
-    if (!userId) {
-      throw new functions.https.HttpsError(
-        'unauthenticated', 
-        'User must be authenticated or provide userId'
-      );
-    }
+    const userId = requireAuth(context, data.userId);
     
     // Get room
     const roomSnapshot = await roomsRef.child(roomId).once('value');
@@ -244,6 +462,19 @@ export const handleRoomLeave = functions.https.onCall(
     
     // Remove user from room
     delete room.users[userId];
+    if (room.cohosts) {
+      delete room.cohosts[userId];
+    }
+    
+    // The user who has been in the room longest takes over as host
+    if (room.ownerId === userId) {
+      const [nextHost] = Object.values(room.users as Record<string, { userId: string; joinedAt: number }>)
+        .sort((a, b) => a.joinedAt - b.joinedAt);
+      room.ownerId = nextHost ? nextHost.userId : null;
+      if (nextHost && room.cohosts) {
+        delete room.cohosts[nextHost.userId];
+      }
+    }
     
     // Add system message
     const messageId = Date.now().toString();
@@ -263,6 +494,7 @@ export const handleRoomLeave = functions.https.onCall(
     // If room is empty, delete it
     if (Object.keys(room.users).length === 0) {
       await roomsRef.child(roomId).remove();
+      await roomSecretsRef.child(roomId).remove();
       return { success: true, roomDeleted: true };
     } else {
       // Otherwise update room
@@ -274,13 +506,14 @@ export const handleRoomLeave = functions.https.onCall(
 
 // Handle chat messages
 export const sendChatMessage = functions.https.onCall(
-  async (data: Record<string, any>, context: any) => {
+  async (data: Record<string, any>, context: functions.https.CallableContext) => {
     const { roomId, text, user } = data;
+    const userId = requireAuth(context, data.userId);
     
-    if (!roomId || !text || !user) {
+    if (!roomId || !text) {
       throw new functions.https.HttpsError(
         'invalid-argument', 
-        'roomId, text, and user are required'
+        'roomId and text are required'
       );
     }
     
@@ -292,15 +525,46 @@ export const sendChatMessage = functions.https.onCall(
     
     const room = roomSnapshot.val();
     
-    // Add message
-    const messageId = Date.now().toString();
-    const newMessage = {
+    // Messages are sent as the user's name in the room, not whatever the
+    // client says it is
+    const member = room.users && room.users[userId];
+    if (!member) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not in this room');
+    }
+    if (user && user !== member.username) {
+      throw new functions.https.HttpsError('permission-denied', 'user does not match your name in this room');
+    }
+    if (isMuted(room, userId)) {
+      throw new functions.https.HttpsError('permission-denied', 'The host has muted you');
+    }
+    
+    // Add message, with the moment of the movie it was sent at
+    const now = Date.now();
+    const messageId = now.toString();
+    const newMessage: {
+      id: string;
+      user: string;
+      userId: string;
+      text: string;
+      timestamp: number;
+      movieId?: string;
+      position?: number;
+    } = {
       id: messageId,
-      user,
+      user: member.username,
+      userId,
       text,
-      timestamp: Date.now()
+      timestamp: now
     };
     
+    if (room.currentMovie) {
+      const videoState = room.videoState || {};
+      const elapsed = videoState.isPlaying ? Math.max(0, now - (videoState.serverTime || now)) / 1000 : 0;
+      const position = (videoState.currentTime || 0) + elapsed * (videoState.playbackRate || 1);
+      newMessage.movieId = room.currentMovie;
+      newMessage.position = Math.round(position * 10) / 10;
+    }
+    
     if (!room.messages) {
       room.messages = [];
     }
@@ -314,18 +578,25 @@ export const sendChatMessage = functions.https.onCall(
   }
 );
 
-// Update video state
+// Apply a playback action (play, pause, seek, rate or heartbeat), stamped
+// with a sequence number and the time it was applied at so clients can tell
+// new actions from old ones. Older clients send `isPlaying` instead of `type`.
 export const updateVideoState = functions.https.onCall(
-  async (data: Record<string, any>, context: any) => {
-    const { roomId, currentTime, isPlaying } = data;
+  async (data: Record<string, any>, context: functions.https.CallableContext) => {
+    const { roomId, type, currentTime, isPlaying, playbackRate } = data;
+    const userId = requireAuth(context, data.userId);
     
-    if (!roomId || currentTime === undefined || isPlaying === undefined) {
+    if (!roomId || currentTime === undefined || (type === undefined && isPlaying === undefined)) {
       throw new functions.https.HttpsError(
         'invalid-argument', 
-        'roomId, currentTime, and isPlaying are required'
+        'roomId, currentTime, and type or isPlaying are required'
       );
     }
     
+    if (type !== undefined && !PLAYBACK_ACTION_TYPES.includes(type)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Unknown playback action type');
+    }
+    
     // Get room
     const roomSnapshot = await roomsRef.child(roomId).once('value');
     if (!roomSnapshot.exists()) {
@@ -334,8 +605,108 @@ export const updateVideoState = functions.https.onCall(
     
     const room = roomSnapshot.val();
     
+    const member = room.users && room.users[userId];
+    if (!member) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not in this room');
+    }
+    if (!canControl(room, userId)) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not allowed to control playback in this room');
+    }
+    
+    // Seeking, rate changes and heartbeats don't change whether it's playing
+    const previous = room.videoState || {};
+    let playing = isPlaying === undefined ? !!previous.isPlaying : !!isPlaying;
+    if (type === 'play') playing = true;
+    if (type === 'pause') playing = false;
+    
     // Update video state
-    room.videoState = { currentTime, isPlaying };
+    room.videoState = {
+      currentTime,
+      isPlaying: playing,
+      playbackRate: playbackRate || previous.playbackRate || 1,
+      serverTime: Date.now(),
+      type: type || (playing ? 'play' : 'pause'),
+      seq: (previous.seq || 0) + 1,
+      origin: { userId, username: member.username }
+    };
+    
+    // Update room
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true, seq: room.videoState.seq };
+  }
+);
+
+// Change the movie everyone in the room is watching
+export const selectMovie = functions.https.onCall(
+  async (data: Record<string, any>, context: functions.https.CallableContext) => {
+    const { roomId, movieId } = data;
+    const userId = requireAuth(context, data.userId);
+    
+    if (!roomId || !movieId) {
+      throw new functions.https.HttpsError(
+        'invalid-argument', 
+        'roomId and movieId are required'
+      );
+    }
+    
+    // Get room
+    const roomSnapshot = await roomsRef.child(roomId).once('value');
+    if (!roomSnapshot.exists()) {
+      throw new functions.https.HttpsError('not-found', 'Room not found');
+    }
+    
+    const room = roomSnapshot.val();
+    
+    const member = room.users && room.users[userId];
+    if (!member) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not in this room');
+    }
+    if (!canControl(room, userId)) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not allowed to change the movie in this room');
+    }
+    
+    // A new movie starts from the beginning, paused
+    room.currentMovie = movieId;
+    room.videoState = {
+      currentTime: 0,
+      isPlaying: false,
+      playbackRate: 1,
+      serverTime: Date.now(),
+      type: 'pause',
+      seq: ((room.videoState && room.videoState.seq) || 0) + 1,
+      origin: { userId, username: member.username }
+    };
+    
+    // Update room
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: make the room private or public, and set or clear its password
+export const setRoomPrivacy = functions.https.onCall(
+  async (data: { roomId: string; isPrivate?: boolean; password?: string }, context: functions.https.CallableContext) => {
+    const { roomId, isPrivate, password } = data;
+    const userId = requireAuth(context);
+    
+    if (typeof password === 'string' && password.length > 128) {
+      throw new functions.https.HttpsError('invalid-argument', 'Room passwords can be at most 128 characters');
+    }
+    
+    const room = await getHostedRoom(roomId, userId, 'Only the host can change who may join the room');
+    
+    room.isPrivate = !!isPrivate;
+    // An empty password clears it; leaving it out keeps the current one
+    if (typeof password === 'string') {
+      room.hasPassword = !!password;
+      await roomSecretsRef.child(roomId).child('passwordHash').set(password ? hashPassword(password) : null);
+    }
+    // Everyone already here stays allowed in
+    room.admitted = room.isPrivate
+      ? { ...room.admitted, ...Object.fromEntries(Object.keys(room.users || {}).map(id => [id, true])) }
+      : null;
     
     // Update room
     await roomsRef.child(roomId).set(room);
@@ -343,3 +714,168 @@ export const updateVideoState = functions.https.onCall(
     return { success: true };
   }
 );
+
+// Invite token for a private room, which anyone in the room may hand out.
+// Public rooms don't need one, so they get null.
+export const createInvite = functions.https.onCall(
+  async (data: { roomId?: string }, context: functions.https.CallableContext) => {
+    const { roomId } = data;
+    const userId = requireAuth(context);
+    
+    if (!roomId) {
+      throw new functions.https.HttpsError('invalid-argument', 'roomId is required');
+    }
+    
+    // Get room
+    const roomSnapshot = await roomsRef.child(roomId).once('value');
+    const room = roomSnapshot.val();
+    if (!room || !room.users || !room.users[userId]) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not in this room');
+    }
+    
+    if (!room.isPrivate) {
+      return { token: null };
+    }
+    
+    const secret = getInviteSecret();
+    if (!secret) {
+      throw new functions.https.HttpsError('failed-precondition', 'Invites are not configured (rooms.invite_secret)');
+    }
+    
+    const expiresAt = Date.now() + INVITE_TTL_MS;
+    return { token: createInviteToken(secret, roomId, expiresAt), expiresAt };
+  }
+);
+
+// Host only: choose who may control playback and the movie
+export const setControlMode = functions.https.onCall(
+  async (data: { roomId: string; mode?: string }, context: functions.https.CallableContext) => {
+    const { roomId, mode } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getHostedRoom(roomId, userId, 'Only the host can change who controls the room');
+    if (!mode || !CONTROL_MODES.includes(mode)) {
+      throw new functions.https.HttpsError('invalid-argument', `Unknown control mode: ${mode}`);
+    }
+    
+    room.controlMode = mode;
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: delegate control to, or take it back from, a co-host
+export const setCohost = functions.https.onCall(
+  async (data: { roomId: string; targetUserId: string; enabled?: boolean }, context: functions.https.CallableContext) => {
+    const { roomId, targetUserId, enabled } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getHostedRoom(roomId, userId, 'Only the host can choose co-hosts');
+    if (!targetUserId || !room.users?.[targetUserId] || targetUserId === room.ownerId) {
+      throw new functions.https.HttpsError('invalid-argument', 'That user is not in the room');
+    }
+    
+    room.cohosts = { ...room.cohosts, [targetUserId]: enabled ? true : null };
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: hand the host role to someone else
+export const transferHost = functions.https.onCall(
+  async (data: { roomId: string; targetUserId: string }, context: functions.https.CallableContext) => {
+    const { roomId, targetUserId } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getHostedRoom(roomId, userId, 'Only the host can hand over the room');
+    if (!targetUserId || !room.users?.[targetUserId]) {
+      throw new functions.https.HttpsError('invalid-argument', 'That user is not in the room');
+    }
+    
+    room.ownerId = targetUserId;
+    if (room.cohosts) {
+      delete room.cohosts[targetUserId];
+    }
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: remove a user from the room. They may join again.
+export const kickUser = functions.https.onCall(
+  async (data: { roomId: string; targetUserId: string }, context: functions.https.CallableContext) => {
+    const { roomId, targetUserId } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getModeratedRoom(roomId, userId, targetUserId);
+    if (!room.users?.[targetUserId]) {
+      throw new functions.https.HttpsError('invalid-argument', 'That user is not in the room');
+    }
+    
+    removeUserByHost(room, targetUserId, 'kicked');
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: ban a user from the room for as long as it exists, or lift the ban
+export const banUser = functions.https.onCall(
+  async (data: { roomId: string; targetUserId: string; banned?: boolean }, context: functions.https.CallableContext) => {
+    const { roomId, targetUserId, banned = true } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getModeratedRoom(roomId, userId, targetUserId);
+    if (!banned) {
+      if (room.banned) {
+        delete room.banned[targetUserId];
+      }
+    } else {
+      const user = room.users?.[targetUserId];
+      if (!user) {
+        throw new functions.https.HttpsError('invalid-argument', 'That user is not in the room');
+      }
+      
+      room.banned = { ...room.banned, [targetUserId]: user.username };
+      if (room.admitted) {
+        delete room.admitted[targetUserId];
+      }
+      removeUserByHost(room, targetUserId, 'banned');
+    }
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: stop a user from sending chat messages, or let them again
+export const muteUser = functions.https.onCall(
+  async (data: { roomId: string; targetUserId: string; muted?: boolean }, context: functions.https.CallableContext) => {
+    const { roomId, targetUserId, muted } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getModeratedRoom(roomId, userId, targetUserId);
+    room.muted = { ...room.muted, [targetUserId]: muted ? true : null };
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
+
+// Host only: keep new users out of the room, or let them in again
+export const lockRoom = functions.https.onCall(
+  async (data: { roomId: string; locked?: boolean }, context: functions.https.CallableContext) => {
+    const { roomId, locked } = data;
+    const userId = requireAuth(context);
+    
+    const room = await getHostedRoom(roomId, userId, 'Only the host can moderate the room');
+    
+    room.locked = !!locked;
+    await roomsRef.child(roomId).set(room);
+    
+    return { success: true };
+  }
+);
@@ -0,0 +1,98 @@
+// Private rooms for the Firebase room transport, as on the sync server (see
+// server/roomAccess.js).
+//
+// Anyone can join a public room. A private room only lets in users who were
+// already admitted to it, and new users who bring either the room password
+// (if the host set one) or an invite token. Invite tokens are signed with the
+// `rooms.invite_secret` config and expire; they look like
+// `<expiry in base 36>.<signature>`, and with the sync server's INVITE_SECRET
+// set to the same secret, invites work on either backend.
+
+import * as crypto from 'crypto';
+import * as functions from 'firebase-functions/v1';
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SCRYPT_KEY_LENGTH = 32;
+
+// Functions run on many instances, so unlike the sync server there's no
+// falling back to a secret of our own: without one, there are no invites
+export const getInviteSecret = (): string | undefined => functions.config().rooms?.invite_secret;
+
+// Salted scrypt hash of a room password, as `<salt>:<hash>`
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+};
+
+export const verifyPassword = (password: unknown, passwordHash?: string | null): boolean => {
+  if (typeof password !== 'string' || !passwordHash) return false;
+
+  const [salt, hash] = passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+const signInvite = (secret: string, roomId: string, expiresAt: number) => {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${roomId}:${expiresAt}`)
+    .digest('base64url');
+};
+
+export const createInviteToken = (secret: string, roomId: string, expiresAt: number): string => {
+  return `${expiresAt.toString(36)}.${signInvite(secret, roomId, expiresAt)}`;
+};
+
+export const verifyInviteToken = (roomId: string, token: unknown, now = Date.now()): boolean => {
+  const secret = getInviteSecret();
+  if (!secret || typeof token !== 'string') return false;
+
+  const [expiry, signature] = token.split('.');
+  const expiresAt = parseInt(expiry, 36);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt <= now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signInvite(secret, roomId, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Who may join a private room, as kept on it in the database
+export interface RoomAccess {
+  isPrivate?: boolean;
+  admitted?: Record<string, boolean>;
+  users?: Record<string, unknown>;
+}
+
+// Whether a user may join a room. Returns null if they may, or why not. The
+// password hash is kept apart from the room, which everyone in it can read.
+export const checkRoomAccess = (
+  room: RoomAccess,
+  roomId: string,
+  userId: string,
+  passwordHash: string | null,
+  { password, inviteToken }: { password?: unknown; inviteToken?: unknown },
+  now = Date.now()
+): { error: string; passwordRequired: boolean } | null => {
+  if (!room.isPrivate || room.admitted?.[userId] || room.users?.[userId]) {
+    return null;
+  }
+
+  if (verifyInviteToken(roomId, inviteToken, now) || verifyPassword(password, passwordHash)) {
+    return null;
+  }
+
+  const passwordRequired = !!passwordHash;
+  let error = 'This room is private. Ask the host for an invite link.';
+  if (password) {
+    error = 'Wrong room password';
+  } else if (passwordRequired) {
+    error = 'This room is private. Enter its password or use an invite link.';
+  }
+
+  return { error, passwordRequired };
+};
@@ -0,0 +1,57 @@
+// Who may do what in a room of the Firebase room transport, as on the sync
+// server (see server/roomControl.js and server/moderation.js).
+//
+// Every room has an owner (the host) and a control mode:
+//   - 'host':     only the host controls playback and the movie
+//   - 'everyone': anyone in the room does
+//   - 'cohosts':  the host plus users the host has delegated control to
+//
+// The host may also kick users (they may join again), ban them for as long as
+// the room exists, mute their chat and lock the room against new users.
+
+export const CONTROL_MODES = ['host', 'everyone', 'cohosts'];
+
+export const DEFAULT_CONTROL_MODE = 'everyone';
+
+// Control and moderation settings, as kept on the room in the database. Sets
+// of user IDs are kept as `{ [userId]: true }`, and bans by user ID with the
+// banned user's name.
+export interface RoomControl {
+  ownerId?: string | null;
+  controlMode?: string;
+  cohosts?: Record<string, boolean>;
+  locked?: boolean;
+  muted?: Record<string, boolean>;
+  banned?: Record<string, string>;
+  users?: Record<string, unknown>;
+}
+
+export const canControl = (room: RoomControl, userId: string): boolean => {
+  if (!userId || !room.users?.[userId]) {
+    return false;
+  }
+
+  switch (room.controlMode || DEFAULT_CONTROL_MODE) {
+    case 'everyone':
+      return true;
+    case 'cohosts':
+      return userId === room.ownerId || !!room.cohosts?.[userId];
+    case 'host':
+    default:
+      return userId === room.ownerId;
+  }
+};
+
+// Whether a user may join a room as far as moderation goes. Returns null if
+// they may, or why not.
+export const checkModeration = (room: RoomControl, userId: string): { error: string } | null => {
+  if (room.banned?.[userId]) {
+    return { error: 'You have been banned from this room' };
+  }
+  if (room.locked && !room.users?.[userId]) {
+    return { error: 'This room is locked' };
+  }
+  return null;
+};
+
+export const isMuted = (room: RoomControl, userId: string): boolean => !!room.muted?.[userId];
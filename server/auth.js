@@ -0,0 +1,97 @@
+// Firebase Authentication on the server.
+//
+// Clients sign in with Firebase Auth (anonymously as guests, or with email or
+// Google) and send their ID token, either as an `Authorization: Bearer` header
+// or in the Socket.IO handshake `auth`. Verifying it gives us the user's UID,
+// which is their identity in rooms and on LiveKit. Admins are users with the
+// `admin` custom claim (see scripts/setAdmin.js).
+//
+// Every room endpoint requires a valid token, and who sent a request is always
+// taken from it. Setting REQUIRE_AUTH=false lets clients without one through,
+// identified by the ID they claim, which is only meant for local development.
+
+import { initializeApp, getApps } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+
+const DEFAULT_PROJECT_ID = 'movie-meet-1a81b';
+
+// Display names nobody may use, so users can't pass for the server
+const RESERVED_USERNAMES = ['system'];
+
+export function isAuthRequired() {
+  return process.env.REQUIRE_AUTH !== 'false';
+}
+
+export function isReservedUsername(username) {
+  return RESERVED_USERNAMES.includes(String(username).trim().toLowerCase());
+}
+
+// Verifying ID tokens only needs the project ID; service account
+// credentials (GOOGLE_APPLICATION_CREDENTIALS) are needed to manage users
+export function getFirebaseApp() {
+  const [app] = getApps();
+  return app || initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.GOOGLE_CLOUD_PROJECT || DEFAULT_PROJECT_ID
+  });
+}
+
+function getFirebaseAuth() {
+  return getAuth(getFirebaseApp());
+}
+
+// Identity we use for a verified ID token
+function toAuthUser(decodedToken) {
+  return {
+    uid: decodedToken.uid,
+    name: decodedToken.name || null,
+    email: decodedToken.email || null,
+    anonymous: decodedToken.firebase?.sign_in_provider === 'anonymous',
+    admin: decodedToken.admin === true
+  };
+}
+
+// Verify an ID token. Resolves to the user, or rejects if the token is invalid
+// or expired.
+export async function verifyIdToken(idToken) {
+  const decodedToken = await getFirebaseAuth().verifyIdToken(idToken);
+  return toAuthUser(decodedToken);
+}
+
+// ID token from an `Authorization: Bearer <token>` header, if any
+export function getBearerToken(req) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+}
+
+// Express middleware setting `req.authUser` from the request's ID token.
+// Requests without a valid token are rejected.
+export async function authenticate(req, res, next) {
+  const idToken = getBearerToken(req);
+  if (!idToken) {
+    if (isAuthRequired()) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    req.authUser = null;
+    return next();
+  }
+
+  try {
+    req.authUser = await verifyIdToken(idToken);
+    next();
+  } catch (error) {
+    console.warn('Rejected ID token:', error.code || error.message);
+    res.status(401).json({ error: 'Invalid or expired ID token' });
+  }
+}
+
+// Grant or revoke the admin custom claim. Needs service account credentials.
+export async function setAdminClaim(uid, admin) {
+  const auth = getFirebaseAuth();
+  const { customClaims } = await auth.getUser(uid);
+  await auth.setCustomUserClaims(uid, { ...customClaims, admin });
+}
+
+export async function getUserByEmail(email) {
+  return getFirebaseAuth().getUserByEmail(email);
+}
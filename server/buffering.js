@@ -0,0 +1,48 @@
+// "Wait for everyone" buffering coordination.
+//
+// Clients report when their player stalls (`waiting`) and recovers
+// (`canplay`). When the room's videoState has `waitForAll` set, the server
+// pauses everyone as soon as someone stalls and resumes together, after a short
+// countdown, once enough of the room (`bufferQuorum`) is ready again.
+
+export { BUFFERING_STATES } from '../shared/protocol.js';
+
+// Countdown before playback resumes after everyone has buffered
+export const RESUME_COUNTDOWN_MS = 3000;
+
+// Users in the room whose players are currently stalled
+export function getWaitingUsers(room) {
+  return Array.from(room.buffering)
+    .filter(userId => room.users.has(userId))
+    .map(userId => ({ userId, username: room.users.get(userId).username }));
+}
+
+// Whether enough participants are ready for playback to continue
+export function isQuorumReady(room) {
+  const total = room.users.size;
+  if (total === 0) {
+    return true;
+  }
+
+  const ready = total - getWaitingUsers(room).length;
+  const required = Math.ceil(room.videoState.bufferQuorum * total);
+  return ready >= required;
+}
+
+// Clamp a requested quorum to a sensible fraction of the room
+export function normalizeQuorum(quorum) {
+  if (typeof quorum !== 'number' || Number.isNaN(quorum)) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0.1, quorum));
+}
+
+// Buffering status as sent to clients
+export function serializeBufferingStatus(room) {
+  return {
+    waitForAll: room.videoState.waitForAll,
+    bufferQuorum: room.videoState.bufferQuorum,
+    waiting: getWaitingUsers(room),
+    paused: room.bufferPaused
+  };
+}
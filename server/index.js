@@ -1,9 +1,61 @@
 import express from 'express';
 import { createServer } from 'http';
+import crypto from 'crypto';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { AccessToken } from 'livekit-server-sdk';
+import {
+  PLAYBACK_ACTIONS,
+  serializeVideoState,
+  applyPlaybackAction,
+  inferPlaybackAction
+} from './playbackClock.js';
+import {
+  CONTROL_MODES,
+  canControl,
+  reassignOwner,
+  serializeRoomControl
+} from './roomControl.js';
+import {
+  RESUME_COUNTDOWN_MS,
+  BUFFERING_STATES,
+  isQuorumReady,
+  normalizeQuorum,
+  serializeBufferingStatus
+} from './buffering.js';
+import {
+  READY_CHECK_COUNTDOWN_MS,
+  createReadyCheck,
+  isEveryoneReady,
+  serializeReadyCheck
+} from './readyCheck.js';
+import { createRoom, addMessage, getMovieAnchor, hashSessionToken } from './room.js';
+import { createRoomStore } from './store/index.js';
+import { createPubSub, createPubSubAdapter } from './pubsub/index.js';
+import { createRoomReplication } from './replication.js';
+import { authenticate, verifyIdToken, isAuthRequired, isReservedUsername } from './auth.js';
+import {
+  DEFAULT_INVITE_TTL_MS,
+  hashPassword,
+  createInviteToken,
+  checkRoomAccess,
+  serializeRoomAccess
+} from './roomAccess.js';
+import { checkModeration, isMuted, getFloodMuteEnd, serializeModeration } from './moderation.js';
+import { removeLiveKitParticipant } from './livekit.js';
+import { createRequestLog, dedupeRequests } from './requestLog.js';
+import { RATE_LIMITED_EVENTS, DEFAULT_RATE_LIMITS, createRateLimiter } from './rateLimit.js';
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  getEventFeature,
+  validateClientEvent
+} from '../shared/protocol.js';
+
+/** @typedef {import('../shared/protocol').ClientToServerEvents} ClientToServerEvents */
+/** @typedef {import('../shared/protocol').ServerToClientEvents} ServerToClientEvents */
 
 // Load environment variables
 dotenv.config();
@@ -11,7 +63,20 @@ dotenv.config();
 const app = express();
 const httpServer = createServer(app);
 
-// Configure CORS for socket.io
+// Pub/sub shared with the other server nodes, if we run more than one
+const pubsub = await createPubSub();
+
+// Changes to rooms, exchanged with the other server nodes
+const replication = pubsub && createRoomReplication({ nodeId: crypto.randomUUID() });
+
+// Long-polling only works across several nodes if the load balancer sends
+// every request of a session to the same node. Without sticky sessions,
+// clustered nodes only accept WebSocket connections.
+const STICKY_SESSIONS = process.env.STICKY_SESSIONS === 'true';
+
+// Configure CORS for socket.io. Events and their payloads are defined in
+// shared/protocol.d.ts.
+/** @type {Server<ClientToServerEvents, ServerToClientEvents>} */
 const io = new Server(httpServer, {
   cors: {
     origin: [process.env.CLIENT_URL || 'http://localhost:5173', 'http://localhost:3000', 'https://movie-meet-1a81b.web.app'],
@@ -19,12 +84,17 @@ const io = new Server(httpServer, {
     credentials: true,
     allowedHeaders: ['Content-Type', 'Authorization']
   },
-  transports: ['polling', 'websocket'],
+  transports: pubsub && !STICKY_SESSIONS ? ['websocket'] : ['polling', 'websocket'],
   allowEIO3: true,
   pingTimeout: 60000,
   pingInterval: 25000
 });
 
+// Deliver `io.to(roomId).emit(...)` to sockets connected to any node
+if (pubsub) {
+  io.adapter(createPubSubAdapter(pubsub));
+}
+
 // Configure Express with enhanced CORS handling
 app.use(cors({
   origin: [process.env.CLIENT_URL || 'http://localhost:5173', 'http://localhost:3000', 'https://movie-meet-1a81b.web.app'],
@@ -57,7 +127,7 @@ app.get('/', (req, res) => {
 });
 
 // LiveKit token generation endpoint
-app.post('/generate-token', (req, res) => {
+app.post('/generate-token', authenticate, (req, res) => {
   try {
     const { roomId, username } = req.body;
     
@@ -65,6 +135,16 @@ app.post('/generate-token', (req, res) => {
       return res.status(400).json({ error: 'roomId and username are required' });
     }
     
+    const sender = resolveSender(req.authUser, req.body.userId);
+    if (sender.error) {
+      return res.status(403).json({ error: sender.error });
+    }
+    
+    // Banned users stay out of the video chat too
+    if (sender.userId && rooms.get(roomId)?.banned.has(sender.userId)) {
+      return res.status(403).json({ error: 'You have been banned from this room' });
+    }
+    
     // Check if we have LiveKit credentials
     const apiKey = process.env.LIVEKIT_API_KEY;
     const apiSecret = process.env.LIVEKIT_API_SECRET;
@@ -79,8 +159,10 @@ app.post('/generate-token', (req, res) => {
     }
     
     // Create token with permissions
+    // Identify participants by user ID, since names aren't unique
     const at = new AccessToken(apiKey, apiSecret, {
-      identity: username,
+      identity: sender.userId || username,
+      name: username,
     });
     
     at.addGrant({ 
@@ -102,71 +184,591 @@ app.post('/generate-token', (req, res) => {
 });
 
 // Store active rooms and users
-const rooms = new Map();
+const rooms = await createRoomStore();
+console.log(`Loaded ${rooms.size} rooms from the ${process.env.ROOM_STORE || 'memory'} room store`);
+
+// Responses to recent client requests, so resent ones are only handled once
+const requestLog = createRequestLog();
+
+// How long an empty room is kept before it's deleted
+const ROOM_TTL_MS = Number(process.env.ROOM_TTL_MS) || 24 * 60 * 60 * 1000;
+const ROOM_SWEEP_INTERVAL = 60 * 1000;
+
+// How long a newly started node waits before fetching rooms from the others
+const ROOM_SYNC_DELAY = 2000;
+
+// How long a disconnected user keeps their seat, so they can resume their
+// session after a network blip
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30 * 1000;
+
+// How many chat messages clients get per page of history
+const MESSAGE_PAGE_SIZE = 50;
+
+// How long invite links to private rooms stay valid
+const INVITE_TTL_MS = Number(process.env.INVITE_TTL_MS) || DEFAULT_INVITE_TTL_MS;
+
+// Token-bucket limits on chat and control events, per user and per room, as
+// `<capacity>/<seconds>`
+const rateLimiter = createRateLimiter({
+  limits: {
+    chat: {
+      user: process.env.CHAT_RATE_LIMIT || DEFAULT_RATE_LIMITS.chat.user,
+      room: process.env.ROOM_CHAT_RATE_LIMIT || DEFAULT_RATE_LIMITS.chat.room
+    },
+    control: {
+      user: process.env.CONTROL_RATE_LIMIT || DEFAULT_RATE_LIMITS.control.user,
+      room: process.env.ROOM_CONTROL_RATE_LIMIT || DEFAULT_RATE_LIMITS.control.room
+    }
+  },
+  strikesToMute: Number(process.env.FLOOD_STRIKES) || undefined
+});
+
+// How long users who keep running into their rate limit are muted
+const FLOOD_MUTE_MS = Number(process.env.FLOOD_MUTE_MS) || 60 * 1000;
+
+// Oldest client protocol version we accept. Raise it after a breaking change
+// to make clients cached from before the deploy reload.
+const MIN_CLIENT_PROTOCOL_VERSION = Number(process.env.MIN_PROTOCOL_VERSION) || MIN_PROTOCOL_VERSION;
+
+// Optional protocol features turned off on this server, e.g. `moderation`
+const DISABLED_FEATURES = (process.env.DISABLED_FEATURES || '').split(',').map(feature => feature.trim());
+const ENABLED_FEATURES = PROTOCOL_FEATURES.filter(feature => !DISABLED_FEATURES.includes(feature));
+
+// Origin of playback actions taken by the server itself
+const SYSTEM_ORIGIN = { userId: null, username: 'System' };
+
+// Persist changes made to a room, mark it as active and share them with the
+// other server nodes
+function saveRoom(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  
+  room.lastActiveAt = Date.now();
+  rooms.save(roomId);
+  shareRoomChanges(roomId);
+}
+
+// Send the other server nodes only what changed in a room since it was last
+// shared (see replication.js)
+function shareRoomChanges(roomId) {
+  if (!replication) return;
+  
+  const changes = replication.diff(roomId, rooms.get(roomId));
+  if (changes.length > 0) {
+    io.serverSideEmit('room_changed', roomId, changes);
+  }
+}
+
+// Take changes made to a room on another node, creating the room if it's new
+// to us
+function applyRoomChanges(roomId, changes) {
+  if (!rooms.has(roomId)) {
+    rooms.set(roomId, createRoom(null));
+  }
+  
+  if (replication.apply(roomId, rooms.get(roomId), changes)) {
+    rooms.save(roomId);
+  }
+}
+
+// Keep a message posted on another node in our copy of the room and its chat
+// history
+function receiveMessage(roomId, message) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  
+  addMessage(room, message);
+  rooms.appendMessage(roomId, message);
+}
+
+// Number a message, add it to the room's chat history and send it to everyone
+// in the room as `event`. With several server nodes, messages are numbered
+// from a counter they share, so the number arrives asynchronously.
+function postMessage(roomId, message, event = 'chat_message') {
+  const room = rooms.get(roomId);
+  if (!pubsub) {
+    deliverMessage(roomId, { ...message, seq: room.messageSeq + 1 }, event);
+    return;
+  }
+  
+  pubsub.nextSequence(`messages:${roomId}`, room.messageSeq)
+    .then(seq => deliverMessage(roomId, { ...message, seq }, event))
+    .catch(error => console.error(`Error numbering a message in room ${roomId}:`, error));
+}
+
+function deliverMessage(roomId, message, event) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  
+  addMessage(room, message);
+  rooms.appendMessage(roomId, message);
+  saveRoom(roomId);
+  
+  if (pubsub) {
+    io.serverSideEmit('message_posted', roomId, message);
+  }
+  io.to(roomId).emit(event, message);
+}
+
+// A room left empty, or reloaded after a restart, goes to whoever joins it first
+function claimIfEmpty(room, userId) {
+  if (room.users.size > 0) return;
+  
+  room.ownerId = userId;
+  room.cohosts.clear();
+}
+
+// Delete rooms nobody has been in for longer than the TTL
+function sweepIdleRooms() {
+  const now = Date.now();
+  
+  for (const [roomId, room] of Array.from(rooms.entries())) {
+    if (room.users.size === 0 && now - room.lastActiveAt > ROOM_TTL_MS) {
+      rooms.delete(roomId);
+      if (pubsub) {
+        replication.forget(roomId);
+        io.serverSideEmit('room_deleted', roomId);
+      }
+      console.log(`Room ${roomId} deleted (idle)`);
+    }
+  }
+}
+
+// Apply a typed playback action to a room and broadcast it to everyone in the
+// room, including the sender, who uses the sequence number to recognise its echo.
+// `startAt` schedules the action for a later server time; `reason` tells
+// clients why the server acted on its own.
+function handlePlaybackAction(roomId, origin, action, { startAt, reason } = {}) {
+  const room = rooms.get(roomId);
+  
+  if (!PLAYBACK_ACTIONS.includes(action.type)) {
+    return { error: `Unknown playback action: ${action.type}` };
+  }
+  
+  // Heartbeats from anyone but the last user to act would fight over the clock
+  if (action.type === 'heartbeat' && room.lastActionBy !== origin.userId) {
+    return { ignored: true };
+  }
+  
+  const now = Date.now();
+  room.videoState = applyPlaybackAction(room.videoState, action, Math.max(now, startAt || 0));
+  room.playbackSeq += 1;
+  room.lastActionBy = origin.userId;
+  
+  // A user playing or pausing by hand takes over from a buffering pause
+  if (origin.userId && (action.type === 'play' || action.type === 'pause') && room.bufferPaused) {
+    room.bufferPaused = false;
+    broadcastBufferingStatus(roomId);
+  }
+  
+  const update = {
+    type: action.type,
+    ...serializeVideoState(room.videoState, now),
+    seq: room.playbackSeq,
+    origin,
+    reason
+  };
+  
+  io.to(roomId).emit('playback_action', update);
+  saveRoom(roomId);
+  return { update };
+}
+
+function broadcastBufferingStatus(roomId) {
+  if (!rooms.has(roomId)) return;
+  io.to(roomId).emit('buffering_status', serializeBufferingStatus(rooms.get(roomId)));
+}
+
+// Resume a room paused for buffering once enough participants are ready,
+// after a short countdown so everyone starts together
+function checkBufferingResume(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || !room.bufferPaused) return;
+  
+  if (room.videoState.waitForAll && !isQuorumReady(room)) return;
+  
+  room.bufferPaused = false;
+  handlePlaybackAction(roomId, SYSTEM_ORIGIN, { type: 'play' }, {
+    startAt: Date.now() + RESUME_COUNTDOWN_MS,
+    reason: 'buffering'
+  });
+  broadcastBufferingStatus(roomId);
+}
+
+// A participant's player stalled or recovered
+function handleBufferingState(roomId, userId, state) {
+  const room = rooms.get(roomId);
+  const wasWaiting = room.buffering.has(userId);
+  
+  if (state === 'waiting') {
+    if (wasWaiting) return;
+    room.buffering.add(userId);
+    
+    // Pause everyone until the stalled viewers catch up
+    if (room.videoState.waitForAll && room.videoState.isPlaying && !room.bufferPaused && !isQuorumReady(room)) {
+      room.bufferPaused = true;
+      handlePlaybackAction(roomId, SYSTEM_ORIGIN, { type: 'pause' }, { reason: 'buffering' });
+    }
+  } else {
+    if (!wasWaiting) return;
+    room.buffering.delete(userId);
+  }
+  
+  saveRoom(roomId);
+  broadcastBufferingStatus(roomId);
+  checkBufferingResume(roomId);
+}
+
+function broadcastReadyCheck(roomId) {
+  if (!rooms.has(roomId)) return;
+  io.to(roomId).emit('ready_check', serializeReadyCheck(rooms.get(roomId)));
+}
+
+// Once everyone has confirmed a ready check, start playback for the whole room
+// at the same instant, after a countdown
+function checkReadyCheckComplete(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || !room.readyCheck || room.readyCheck.startsAt || !isEveryoneReady(room)) return;
+  
+  const { id } = room.readyCheck;
+  const startsAt = Date.now() + READY_CHECK_COUNTDOWN_MS;
+  room.readyCheck.startsAt = startsAt;
+  
+  handlePlaybackAction(roomId, SYSTEM_ORIGIN, { type: 'play' }, { startAt: startsAt, reason: 'ready_check' });
+  broadcastReadyCheck(roomId);
+  
+  // The check is over once playback has started
+  setTimeout(() => {
+    const currentRoom = rooms.get(roomId);
+    if (!currentRoom || !currentRoom.readyCheck || currentRoom.readyCheck.id !== id) return;
+    
+    currentRoom.readyCheck = null;
+    saveRoom(roomId);
+    broadcastReadyCheck(roomId);
+  }, READY_CHECK_COUNTDOWN_MS);
+}
+
+// Control and access settings of a room, as sent to clients
+function getRoomControlPayload(room) {
+  return { ...serializeRoomControl(room), ...serializeRoomAccess(room), ...serializeModeration(room) };
+}
+
+// Let everyone in the room know who is in it and who holds control
+function broadcastRoomControl(roomId) {
+  if (!rooms.has(roomId)) return;
+  io.to(roomId).emit('room_control', getRoomControlPayload(rooms.get(roomId)));
+}
+
+// Share a subtitle timing with the room, or hand it back to each viewer (null)
+function setSubtitleOffset(roomId, offset, origin) {
+  const room = rooms.get(roomId);
+  room.subtitleOffset = offset;
+  saveRoom(roomId);
+  io.to(roomId).emit('subtitle_offset', { offset, origin });
+}
+
+// Take a token for a user's chat or control event ('chat' or 'control').
+// Returns null if it may go ahead, or why not and how long until the user may
+// try again. Users who keep at it are muted for a while.
+function checkRateLimit(roomId, userId, kind, now = Date.now()) {
+  const room = rooms.get(roomId);
+  
+  const floodMuteEnd = getFloodMuteEnd(room, userId, now);
+  if (floodMuteEnd) {
+    const seconds = Math.ceil((floodMuteEnd - now) / 1000);
+    return { error: `You are muted for flooding the room for another ${seconds}s`, retryAfter: floodMuteEnd - now, mutedUntil: floodMuteEnd };
+  }
+  
+  const limited = rateLimiter.consume(kind, roomId, userId, now);
+  if (!limited) return null;
+  
+  if (limited.mute) {
+    const mutedUntil = now + FLOOD_MUTE_MS;
+    room.mutedUntil.set(userId, mutedUntil);
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+    console.log(`Muted ${userId} in room ${roomId} for flooding`);
+    
+    // Let everyone see the mute lifted once it's over
+    setTimeout(() => {
+      const currentRoom = rooms.get(roomId);
+      if (currentRoom?.mutedUntil.get(userId) !== mutedUntil) return;
+      currentRoom.mutedUntil.delete(userId);
+      saveRoom(roomId);
+      broadcastRoomControl(roomId);
+    }, FLOOD_MUTE_MS).unref();
+    
+    return { error: `You have been muted for ${Math.ceil(FLOOD_MUTE_MS / 1000)}s for flooding the room`, retryAfter: FLOOD_MUTE_MS, mutedUntil };
+  }
+  
+  return {
+    error: limited.scope === 'room' ? 'The room is busy, please slow down' : 'You are sending too fast, please slow down',
+    retryAfter: limited.retryAfter
+  };
+}
+
+// Express middleware applying the rate limit of `kind` to a REST route. Goes
+// after `authenticate`.
+function limitRate(kind) {
+  return (req, res, next) => {
+    const { roomId } = req.body;
+    const { userId } = resolveSender(req.authUser, req.body.userId);
+    if (!userId || !rooms.get(roomId)?.users.has(userId)) return next();
+    
+    const limited = checkRateLimit(roomId, userId, kind);
+    if (!limited) return next();
+    
+    res.set('Retry-After', String(Math.ceil(limited.retryAfter / 1000)));
+    return res.status(429).json(limited);
+  };
+}
+
+// Check a user joining a room against bans, the lock and, for a private room,
+// its password or invite, letting them in for good if they may join. Returns
+// why they may not, or null.
+function admitUser(roomId, userId, credentials) {
+  const room = rooms.get(roomId);
+  if (!room) return null;
+  
+  const moderated = checkModeration(room, userId);
+  if (moderated) {
+    return { ...moderated, passwordRequired: false };
+  }
+  
+  const denied = checkRoomAccess(room, roomId, userId, credentials);
+  if (denied || !room.isPrivate || room.admitted.has(userId)) {
+    return denied;
+  }
+  
+  room.admitted.add(userId);
+  return null;
+}
+
+// Remove a user from a room, handing the host role on if they held it.
+// Returns true if the room is now empty.
+function removeUserFromRoom(roomId, userId) {
+  const room = rooms.get(roomId);
+  room.users.delete(userId);
+  room.cohosts.delete(userId);
+  room.buffering.delete(userId);
+  room.readyCheck?.ready.delete(userId);
+  for (const [sessionHash, sessionUserId] of Array.from(room.sessions.entries())) {
+    if (sessionUserId === userId) {
+      room.sessions.delete(sessionHash);
+    }
+  }
+  
+  // Empty rooms are kept, with their chat and paused at their playback
+  // position, until they have been idle for the room TTL
+  if (room.users.size === 0) {
+    room.readyCheck = null;
+    room.bufferPaused = false;
+    if (room.videoState.isPlaying) {
+      room.videoState = applyPlaybackAction(room.videoState, { type: 'pause' });
+      room.playbackSeq += 1;
+    }
+    saveRoom(roomId);
+    return true;
+  }
+  saveRoom(roomId);
+  
+  if (reassignOwner(room)) {
+    console.log(`Host of room ${roomId} is now ${room.ownerId}`);
+  }
+  broadcastRoomControl(roomId);
+  
+  // Don't keep everyone waiting for someone who has left
+  broadcastBufferingStatus(roomId);
+  checkBufferingResume(roomId);
+  
+  // The last user we were waiting on may have left
+  if (room.readyCheck) {
+    broadcastReadyCheck(roomId);
+    checkReadyCheckComplete(roomId);
+  }
+  return false;
+}
+
+// Remove a user from a room and let everyone know they left
+function handleUserLeft(roomId, userId) {
+  const user = rooms.get(roomId)?.users.get(userId);
+  if (!user) return;
+  
+  const roomEmpty = removeUserFromRoom(roomId, userId);
+  
+  // Add system message, and broadcast it via Socket.IO
+  postMessage(roomId, {
+    id: Date.now().toString(),
+    user: 'System',
+    text: `${user.username} left the room`,
+    timestamp: new Date()
+  }, 'user_left');
+  
+  console.log(`${user.username} left room ${roomId}`);
+  
+  if (roomEmpty) {
+    console.log(`Room ${roomId} is empty`);
+  }
+}
+
+// Remove a user from a room on the host's orders, along with their video chat.
+// `reason` is 'kicked' or 'banned'.
+function removeUserByHost(roomId, userId, reason) {
+  const user = rooms.get(roomId)?.users.get(userId);
+  if (!user) return;
+  
+  // Tell them, and stop sending them the room's events
+  if (user.socketId) {
+    io.to(user.socketId).emit('removed_from_room', { roomId, reason });
+    io.in(user.socketId).socketsLeave(roomId);
+  }
+  
+  removeUserFromRoom(roomId, userId);
+  removeLiveKitParticipant(roomId, userId);
+  
+  postMessage(roomId, {
+    id: Date.now().toString(),
+    user: 'System',
+    text: `${user.username} was ${reason === 'banned' ? 'banned' : 'removed'} by the host`,
+    timestamp: new Date()
+  }, 'user_left');
+  
+  console.log(`${user.username} was ${reason} from room ${roomId}`);
+}
+
+// A user's socket dropped. Keep their seat (and host role) for a grace period
+// in case they reconnect; only then do they leave the room.
+function handleUserDisconnected(roomId, userId, socketId) {
+  const room = rooms.get(roomId);
+  const user = room?.users.get(userId);
+  if (!user || user.socketId !== socketId) return;
+  
+  room.users.set(userId, { ...user, disconnectedAt: Date.now() });
+  // Their player is gone, so don't wait for it
+  room.buffering.delete(userId);
+  saveRoom(roomId);
+  broadcastBufferingStatus(roomId);
+  checkBufferingResume(roomId);
+  
+  setTimeout(() => {
+    // Still on the socket that dropped, so they never came back (on any node)
+    const current = rooms.get(roomId)?.users.get(userId);
+    if (!current || current.socketId !== socketId) return;
+    
+    handleUserLeft(roomId, userId);
+  }, RECONNECT_GRACE_MS);
+}
+
+// Users are identified by a stable ID the client keeps (per browser), not by
+// their display name, which is only a label and need not be unique
+function isValidUserId(userId) {
+  return typeof userId === 'string' && /^[A-Za-z0-9_-]{8,128}$/.test(userId);
+}
+
+// Who sent a request: the signed-in user, or with auth disabled, whoever the
+// client claims to be. Claiming to be someone other than the signed-in user
+// is an error.
+function resolveSender(authUser, claimedUserId) {
+  if (authUser) {
+    if (claimedUserId && claimedUserId !== authUser.uid) {
+      return { error: 'userId does not match the signed-in user' };
+    }
+    return { userId: authUser.uid };
+  }
+  
+  return { userId: isValidUserId(claimedUserId) ? claimedUserId : null };
+}
+
+// Room state sent to a user when they join or resume their session
+function getRoomUsersPayload(room, memberId, sessionToken) {
+  return {
+    userId: memberId,
+    sessionToken,
+    users: Array.from(room.users.values()).map(({ userId, username }) => ({ userId, username })),
+    videoState: serializeVideoState(room.videoState),
+    playbackSeq: room.playbackSeq,
+    currentMovie: room.currentMovie,
+    buffering: serializeBufferingStatus(room),
+    readyCheck: serializeReadyCheck(room),
+    subtitleOffset: room.subtitleOffset,
+    ...getLatestMessages(room)
+  };
+}
+
+// The latest page of a room's chat; older messages are loaded with
+// `load_messages`
+function getLatestMessages(room) {
+  const messages = room.messages.slice(-MESSAGE_PAGE_SIZE);
+  return {
+    messages,
+    hasMoreMessages: messages.length > 0 && messages[0].seq > 1
+  };
+}
 
 // REST API endpoints to match the updated frontend
 // Join a room
-app.post('/api/room/join', (req, res) => {
+app.post('/api/room/join', authenticate, dedupeRequests(requestLog), (req, res) => {
   try {
-    const { roomId, username } = req.body;
+    const { roomId, username, password, inviteToken } = req.body;
     
     if (!roomId || !username) {
       return res.status(400).json({ error: 'roomId and username are required' });
     }
     
-    // Create room if it doesn't exist
-    if (!rooms.has(roomId)) {
-      rooms.set(roomId, {
-        users: new Map(),
-        videoState: {
-          currentTime: 0,
-          isPlaying: false
-        },
-        messages: []
-      });
+    if (isReservedUsername(username)) {
+      return res.status(400).json({ error: 'That name is reserved' });
     }
     
-    // Generate a unique ID for the user
-    const userId = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const sender = resolveSender(req.authUser, req.body.userId);
+    if (sender.error) {
+      return res.status(403).json({ error: sender.error });
+    }
     
-    // Add user to room
-    const room = rooms.get(roomId);
+    // Users are identified by their Firebase UID. With auth disabled, use the
+    // client's own ID, or generate one for older clients.
+    const userId = sender.userId || `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    // Check if any existing users have the same username and remove them
-    for (const [existingUserId, existingUser] of room.users.entries()) {
-      if (existingUser.username === username) {
-        console.log(`Removing duplicated user ${username} from room ${roomId}`);
-        room.users.delete(existingUserId);
-      }
+    const denied = admitUser(roomId, userId, { password, inviteToken });
+    if (denied) {
+      return res.status(403).json({ ...denied, accessDenied: true });
     }
     
-    room.users.set(userId, { username, userId });
+    // Create room if it doesn't exist, with the joining user as its host
+    if (!rooms.has(roomId)) {
+      rooms.set(roomId, createRoom(userId));
+    }
     
-    // Add system message
-    const messageId = Date.now().toString();
-    const newMessage = {
-      id: messageId,
+    // Add user to room
+    const room = rooms.get(roomId);
+    claimIfEmpty(room, userId);
+    
+    // Rejoining keeps the user's seat (and host role), possibly under a new name
+    const existingUser = room.users.get(userId);
+    room.users.set(userId, { ...existingUser, username, userId });
+    
+    // Add system message, and broadcast it via Socket.IO
+    postMessage(roomId, {
+      id: Date.now().toString(),
       user: 'System',
       text: `${username} joined the room`,
       timestamp: new Date()
-    };
-    
-    if (!room.messages) {
-      room.messages = [];
+    }, 'user_joined');
+    broadcastRoomControl(roomId);
+    if (room.readyCheck) {
+      broadcastReadyCheck(roomId);
     }
     
-    room.messages.push(newMessage);
-    
-    // Broadcast user joined message via Socket.IO
-    io.to(roomId).emit('user_joined', newMessage);
-    
     return res.json({ 
       success: true, 
       userId,
       room: {
-        users: Array.from(room.users.values()),
-        videoState: room.videoState,
-        messages: room.messages
+        users: Array.from(room.users.values()).map(({ userId, username }) => ({ userId, username })),
+        videoState: serializeVideoState(room.videoState),
+        playbackSeq: room.playbackSeq,
+        control: getRoomControlPayload(room),
+        readyCheck: serializeReadyCheck(room),
+        currentMovie: room.currentMovie,
+        ...getLatestMessages(room)
       }
     });
   } catch (error) {
@@ -176,66 +778,42 @@ app.post('/api/room/join', (req, res) => {
 });
 
 // Leave a room
-app.post('/api/room/leave', (req, res) => {
+app.post('/api/room/leave', authenticate, dedupeRequests(requestLog), (req, res) => {
   try {
-    const { roomId, userId } = req.body;
+    const { roomId } = req.body;
     
     if (!roomId) {
       return res.status(400).json({ error: 'roomId is required' });
     }
     
+    const { userId, error } = resolveSender(req.authUser, req.body.userId);
+    if (error) {
+      return res.status(403).json({ error });
+    }
+    
     if (!rooms.has(roomId)) {
       return res.status(404).json({ error: 'Room not found' });
     }
     
     const room = rooms.get(roomId);
     
-    // Handle case where userId isn't provided but we want to clean up by username
-    let user = null;
-    if (userId && room.users.has(userId)) {
-      // Direct match by userId
-      user = room.users.get(userId);
-      room.users.delete(userId);
-    } else if (req.body.username) {
-      // Try to find by username if userId doesn't match
-      for (const [existingUserId, existingUser] of room.users.entries()) {
-        if (existingUser.username === req.body.username) {
-          user = existingUser;
-          room.users.delete(existingUserId);
-          break;
-        }
-      }
-    }
+    const user = room.users.get(userId);
     
     if (!user) {
       return res.status(404).json({ error: 'User not found in room' });
     }
     
-    // Add system message
-    const messageId = Date.now().toString();
-    const newMessage = {
-      id: messageId,
+    // Add system message, and broadcast it via Socket.IO
+    postMessage(roomId, {
+      id: Date.now().toString(),
       user: 'System',
       text: `${user.username} left the room`,
       timestamp: new Date()
-    };
+    }, 'user_left');
     
-    if (!room.messages) {
-      room.messages = [];
-    }
-    
-    room.messages.push(newMessage);
-    
-    // Broadcast user left message via Socket.IO
-    io.to(roomId).emit('user_left', newMessage);
-    
-    // Clean up empty rooms
-    if (room.users.size === 0) {
-      rooms.delete(roomId);
-      return res.json({ success: true, roomDeleted: true });
-    }
+    const roomEmpty = removeUserFromRoom(roomId, userId);
     
-    return res.json({ success: true, roomDeleted: false });
+    return res.json({ success: true, roomEmpty });
   } catch (error) {
     console.error('Error leaving room:', error);
     return res.status(500).json({ error: 'Failed to leave room' });
@@ -243,30 +821,47 @@ app.post('/api/room/leave', (req, res) => {
 });
 
 // Update video state
-app.post('/api/room/video-state', (req, res) => {
+app.post('/api/room/video-state', authenticate, dedupeRequests(requestLog), limitRate('control'), (req, res) => {
   try {
-    const { roomId, currentTime, isPlaying } = req.body;
+    const { roomId, type, currentTime, isPlaying, playbackRate } = req.body;
     
-    if (!roomId || currentTime === undefined || isPlaying === undefined) {
-      return res.status(400).json({ error: 'roomId, currentTime, and isPlaying are required' });
+    if (!roomId || currentTime === undefined || (type === undefined && isPlaying === undefined)) {
+      return res.status(400).json({ error: 'roomId, currentTime, and type or isPlaying are required' });
     }
     
     if (!rooms.has(roomId)) {
       return res.status(404).json({ error: 'Room not found' });
     }
     
+    const { userId, error } = resolveSender(req.authUser, req.body.userId);
+    if (error) {
+      return res.status(403).json({ error });
+    }
+    
     const room = rooms.get(roomId);
+    const user = room.users.get(userId);
     
-    // Update room's video state
-    room.videoState = { currentTime, isPlaying };
+    if (!user) {
+      return res.status(403).json({ error: 'You are not in this room' });
+    }
     
-    // Broadcast to everyone via Socket.IO
-    io.to(roomId).emit('video_state_update', {
-      currentTime,
-      isPlaying
-    });
+    if (!canControl(room, userId)) {
+      return res.status(403).json({ error: 'You are not allowed to control playback in this room' });
+    }
+    
+    const origin = { userId, username: user.username };
+    
+    // Older clients send untyped `{ currentTime, isPlaying }` updates
+    const action = type
+      ? { type, currentTime, playbackRate }
+      : inferPlaybackAction(room.videoState, { currentTime, isPlaying, playbackRate });
     
-    return res.json({ success: true });
+    const result = handlePlaybackAction(roomId, origin, action);
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
+    
+    return res.json({ success: true, seq: result.update?.seq });
   } catch (error) {
     console.error('Error updating video state:', error);
     return res.status(500).json({ error: 'Failed to update video state' });
@@ -274,37 +869,48 @@ app.post('/api/room/video-state', (req, res) => {
 });
 
 // Send chat message
-app.post('/api/room/chat', (req, res) => {
+app.post('/api/room/chat', authenticate, dedupeRequests(requestLog), limitRate('chat'), (req, res) => {
   try {
     const { roomId, text, user } = req.body;
     
-    if (!roomId || !text || !user) {
-      return res.status(400).json({ error: 'roomId, text, and user are required' });
+    if (!roomId || !text) {
+      return res.status(400).json({ error: 'roomId and text are required' });
     }
     
     if (!rooms.has(roomId)) {
       return res.status(404).json({ error: 'Room not found' });
     }
     
+    const { userId, error } = resolveSender(req.authUser, req.body.userId);
+    if (error) {
+      return res.status(403).json({ error });
+    }
+    
     const room = rooms.get(roomId);
+    const member = room.users.get(userId);
+    
+    // Messages are sent as the user's name in the room, not whatever the
+    // client says it is
+    if (!member) {
+      return res.status(403).json({ error: 'You are not in this room' });
+    }
+    if (user && user !== member.username) {
+      return res.status(403).json({ error: 'user does not match your name in this room' });
+    }
+    if (isMuted(room, userId)) {
+      return res.status(403).json({ error: 'The host has muted you' });
+    }
     
-    // Add message
+    // Add message, and broadcast it to everyone via Socket.IO
     const messageId = Date.now().toString();
-    const newMessage = {
+    postMessage(roomId, {
       id: messageId,
-      user,
+      user: member.username,
+      userId,
       text,
-      timestamp: new Date()
-    };
-    
-    if (!room.messages) {
-      room.messages = [];
-    }
-    
-    room.messages.push(newMessage);
-    
-    // Broadcast to everyone via Socket.IO
-    io.to(roomId).emit('chat_message', newMessage);
+      timestamp: new Date(),
+      ...getMovieAnchor(room)
+    });
     
     return res.json({ success: true, messageId });
   } catch (error) {
@@ -314,207 +920,691 @@ app.post('/api/room/chat', (req, res) => {
 });
 
 // Socket.io connection handler
+// Turn away clients too old for our protocol, telling them to reload. They
+// send their version in the handshake; clients from before versioning don't.
+io.use((socket, next) => {
+  const protocolVersion = Number(socket.handshake.auth?.protocolVersion) || 0;
+  if (protocolVersion >= MIN_CLIENT_PROTOCOL_VERSION) {
+    return next();
+  }
+  
+  console.warn(`Rejected client speaking protocol version ${protocolVersion}`);
+  const error = new Error('MovieMeet has been updated. Please reload the page.');
+  error.data = { reloadRequired: true, protocolVersion: PROTOCOL_VERSION, minProtocolVersion: MIN_CLIENT_PROTOCOL_VERSION };
+  next(error);
+});
+
+// Verify the ID token sent in the handshake, so the socket acts as that
+// Firebase user
+io.use(async (socket, next) => {
+  const idToken = socket.handshake.auth?.token;
+  socket.data.authUser = null;
+  if (!idToken) {
+    return isAuthRequired() ? next(new Error('Sign in required')) : next();
+  }
+  
+  try {
+    socket.data.authUser = await verifyIdToken(idToken);
+    next();
+  } catch (error) {
+    console.warn('Rejected socket ID token:', error.code || error.message);
+    next(new Error('Invalid or expired ID token'));
+  }
+});
+
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
   
-  // Track which rooms this socket is in
-  const userRooms = new Set();
+  // Track which rooms this socket is in, and the user ID it has in each
+  const userRooms = new Map();
+  
+  // Look up the user this socket is in a room as
+  function getRoomUser(roomId) {
+    if (!rooms.has(roomId) || !userRooms.has(roomId)) return null;
+    
+    const userId = userRooms.get(roomId);
+    const user = rooms.get(roomId).users.get(userId);
+    return user ? { userId, user } : null;
+  }
+  
+  // Answer a request, if the client asked for an answer
+  function acknowledge(ack, response) {
+    if (typeof ack === 'function') ack(response);
+  }
+  
+  // Reject a control event from a user who isn't allowed to send it
+  function denyControl(action, error) {
+    socket.emit('control_denied', { action, error });
+  }
+  
+  // The room, if the sender is its host and may act on `targetId`; otherwise
+  // tells the sender why not and returns null
+  function getModeratedRoom(action, roomId, targetId) {
+    const member = getRoomUser(roomId);
+    if (!member) return null;
+    
+    const room = rooms.get(roomId);
+    if (member.userId !== room.ownerId) {
+      denyControl(action, 'Only the host can moderate the room');
+      return null;
+    }
+    if (targetId === member.userId) {
+      denyControl(action, "You can't moderate yourself");
+      return null;
+    }
+    return room;
+  }
+  
+  // Answer the handshake with our version and the features we both support
+  const clientFeatures = Array.isArray(socket.handshake.auth?.features) ? socket.handshake.auth.features : [];
+  socket.emit('server_info', {
+    protocolVersion: PROTOCOL_VERSION,
+    features: ENABLED_FEATURES.filter(feature => clientFeatures.includes(feature))
+  });
+  
+  // Drop events whose payload doesn't match the protocol, that belong to a
+  // feature we've turned off or that go over the sender's rate limit, telling
+  // the client (and answering the request, if it asked for an answer)
+  socket.use(([event, payload, ...rest], next) => {
+    const ack = rest[rest.length - 1];
+    const error = validateClientEvent(event, payload);
+    if (error) {
+      console.warn(`Invalid ${event} from ${socket.id}: ${error}`);
+      socket.emit('invalid_payload', { event, error });
+      return acknowledge(ack, { error });
+    }
+    
+    const feature = getEventFeature(event);
+    if (feature && !ENABLED_FEATURES.includes(feature)) {
+      const disabled = `This server has ${feature.replace(/_/g, ' ')} turned off`;
+      denyControl(event, disabled);
+      return acknowledge(ack, { error: disabled });
+    }
+    
+    const member = RATE_LIMITED_EVENTS[event] && getRoomUser(payload.roomId);
+    const limited = member && checkRateLimit(payload.roomId, member.userId, RATE_LIMITED_EVENTS[event]);
+    if (limited) {
+      socket.emit('rate_limited', { action: event, ...limited });
+      return acknowledge(ack, limited);
+    }
+    next();
+  });
   
   // Debug socket events
   socket.onAny((event, ...args) => {
-    console.log(`[SOCKET EVENT] ${event}`, args);
+    if (event === 'time_sync') return;
+    // Keep room passwords out of the logs
+    const loggedArgs = args.map(arg => (arg?.password ? { ...arg, password: '***' } : arg));
+    console.log(`[SOCKET EVENT] ${event}`, loggedArgs);
+  });
+
+  // NTP-style clock sync: clients compare their send/receive times with the
+  // server time to estimate their offset from the room clock
+  socket.on('time_sync', (clientTime, ack) => {
+    if (typeof ack !== 'function') return;
+    ack({ clientTime, serverTime: Date.now() });
   });
 
   // Join a room
-  socket.on('join_room', ({ roomId, username }) => {
+  socket.on('join_room', (payload, ack) => {
+    const sender = resolveSender(socket.data.authUser, payload?.userId);
+    acknowledge(ack, requestLog.run(sender.userId || socket.id, payload?.requestId, () => joinRoom(payload, sender)));
+  });
+  
+  function joinRoom({ roomId, username, sessionToken, password, inviteToken }, sender) {
     console.log(`${username} (${socket.id}) joining room ${roomId}`);
     
-    // Leave any previous instances of this room first
-    if (userRooms.has(roomId)) {
+    if (sender.error || isReservedUsername(username)) {
+      const error = sender.error || 'That name is reserved';
+      socket.emit('auth_error', { action: 'join_room', error });
+      return { error };
+    }
+    
+    // Reconnecting within the grace period: quietly take back the same seat
+    const resumedUserId = sessionToken && rooms.get(roomId)?.sessions.get(hashSessionToken(sessionToken));
+    const authUid = socket.data.authUser?.uid;
+    if (resumedUserId && rooms.get(roomId).users.has(resumedUserId) && (!authUid || authUid === resumedUserId)) {
+      const room = rooms.get(roomId);
+      const user = room.users.get(resumedUserId);
+      
+      socket.join(roomId);
+      userRooms.set(roomId, resumedUserId);
+      room.users.set(resumedUserId, { username: user.username, userId: resumedUserId, socketId: socket.id });
+      saveRoom(roomId);
+      
+      socket.emit('room_users', { ...getRoomUsersPayload(room, resumedUserId, sessionToken), resumed: true });
+      console.log(`${user.username} resumed their session in room ${roomId}`);
+      return { success: true, userId: resumedUserId };
+    }
+    
+    // The user's Firebase UID (or with auth disabled, the client's stable ID),
+    // shared with the REST join, so both transports agree on who is who (and
+    // who the host is). Older clients fall back to the socket ID.
+    const memberId = sender.userId || socket.id;
+    
+    const denied = admitUser(roomId, memberId, { password, inviteToken });
+    if (denied) {
+      socket.emit('join_denied', { roomId, ...denied });
+      return { error: denied.error };
+    }
+    
+    // Leave any previous instances of this room first, unless it's the same
+    // user joining again
+    if (userRooms.has(roomId) && userRooms.get(roomId) !== memberId) {
       console.log(`${username} was already in room ${roomId}, cleaning up...`);
-      leaveRoomCleanup(socket, roomId, username);
+      leaveRoomCleanup(socket, roomId);
     }
     
     // Join the room
     socket.join(roomId);
-    userRooms.add(roomId);
+    userRooms.set(roomId, memberId);
     
-    // Create room if it doesn't exist
+    // Create room if it doesn't exist, with the joining user as its host
     if (!rooms.has(roomId)) {
-      rooms.set(roomId, {
-        users: new Map(),
-        videoState: {
-          currentTime: 0,
-          isPlaying: false
-        },
-        messages: []
-      });
+      rooms.set(roomId, createRoom(memberId));
     }
     
     // Add user to room
     const room = rooms.get(roomId);
-    room.users.set(socket.id, { username, socketId: socket.id });
+    claimIfEmpty(room, memberId);
+    room.users.set(memberId, { username, userId: memberId, socketId: socket.id });
     
-    // Broadcast user joined message
-    io.to(roomId).emit('user_joined', {
-      user: username,
-      timestamp: new Date(),
+    // Token the client can use to resume this seat after a disconnect
+    const newSessionToken = crypto.randomBytes(24).toString('base64url');
+    room.sessions.set(hashSessionToken(newSessionToken), memberId);
+    saveRoom(roomId);
+    
+    // Add system message, and broadcast it via Socket.IO
+    postMessage(roomId, {
       id: Date.now().toString(),
-      text: `${username} joined the room`
-    });
+      user: 'System',
+      text: `${username} joined the room`,
+      timestamp: new Date()
+    }, 'user_joined');
     
     // Send current users to the new user
-    socket.emit('room_users', {
-      users: Array.from(room.users.values()),
-      videoState: room.videoState,
-      messages: room.messages || []
-    });
+    socket.emit('room_users', getRoomUsersPayload(room, memberId, newSessionToken));
+    broadcastRoomControl(roomId);
+    // Anyone joining mid-check has to confirm too
+    if (room.readyCheck) {
+      broadcastReadyCheck(roomId);
+    }
     
     console.log(`${username} joined room ${roomId}`);
-  });
+    return { success: true, userId: memberId };
+  }
   
   // Helper function to clean up when a user leaves a room
-  function leaveRoomCleanup(socket, roomId, username) {
+  function leaveRoomCleanup(socket, roomId) {
     if (!rooms.has(roomId)) return;
     
-    const room = rooms.get(roomId);
-    let user = room.users.get(socket.id);
-    
-    // If we don't find the user by socket ID but have a username, try to find by username
-    if (!user && username) {
-      for (const [userId, userObj] of room.users.entries()) {
-        if (userObj.username === username) {
-          user = userObj;
-          room.users.delete(userId);
-          break;
-        }
-      }
-    }
+    handleUserLeft(roomId, userRooms.get(roomId) || socket.id);
     
-    if (user) {
-      // Remove user from room if not already removed
-      if (room.users.has(socket.id)) {
-        room.users.delete(socket.id);
+    socket.leave(roomId);
+    userRooms.delete(roomId);
+  }
+  
+  // Leave room
+  socket.on('leave_room', ({ roomId }, ack) => {
+    leaveRoomCleanup(socket, roomId);
+    acknowledge(ack, { success: true });
+  });
+  
+  // Typed playback action (play, pause, seek, rate or heartbeat)
+  socket.on('playback_action', ({ roomId, requestId, type, currentTime, playbackRate }, ack) => {
+    const member = getRoomUser(roomId);
+    if (!member) return acknowledge(ack, { error: 'Not in room' });
+    
+    acknowledge(ack, requestLog.run(member.userId, requestId, () => {
+      if (!canControl(rooms.get(roomId), member.userId)) {
+        const error = 'You are not allowed to control playback in this room';
+        denyControl('playback_action', error);
+        return { error };
       }
       
-      // Broadcast user left message
-      io.to(roomId).emit('user_left', {
-        user: user.username,
-        timestamp: new Date(),
-        id: Date.now().toString(),
-        text: `${user.username} left the room`
-      });
+      const result = handlePlaybackAction(
+        roomId,
+        { userId: member.userId, username: member.user.username },
+        { type, currentTime, playbackRate }
+      );
       
-      console.log(`${user.username} left room ${roomId}`);
+      if (result.error) {
+        socket.emit('playback_error', { error: result.error });
+        return { error: result.error };
+      }
+      return { success: true, seq: result.update?.seq };
+    }));
+  });
+  
+  // Legacy untyped video state update from older clients
+  socket.on('video_state_update', ({ currentTime, isPlaying, playbackRate, roomId }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (!canControl(room, member.userId)) {
+      denyControl('video_state_update', 'You are not allowed to control playback in this room');
+      return;
+    }
+    
+    handlePlaybackAction(
+      roomId,
+      { userId: member.userId, username: member.user.username },
+      inferPlaybackAction(room.videoState, { currentTime, isPlaying, playbackRate })
+    );
+  });
+  
+  // Change the movie everyone is watching
+  socket.on('select_movie', ({ roomId, requestId, movieId }, ack) => {
+    const member = getRoomUser(roomId);
+    if (!member) return acknowledge(ack, { error: 'Not in room' });
+    
+    acknowledge(ack, requestLog.run(member.userId, requestId, () => {
+      const room = rooms.get(roomId);
+      if (!canControl(room, member.userId)) {
+        denyControl('select_movie', 'You are not allowed to change the movie in this room');
+        return { error: 'Not allowed' };
+      }
       
-      // Clean up empty rooms
-      if (room.users.size === 0) {
-        rooms.delete(roomId);
-        console.log(`Room ${roomId} deleted (empty)`);
+      // A new movie starts from the beginning, paused, with its own subtitles
+      room.currentMovie = movieId;
+      if (room.subtitleOffset !== null) {
+        setSubtitleOffset(roomId, null, SYSTEM_ORIGIN);
       }
+      handlePlaybackAction(
+        roomId,
+        { userId: member.userId, username: member.user.username },
+        { type: 'pause', currentTime: 0 }
+      );
+      
+      io.to(roomId).emit('movie_selected', {
+        movieId,
+        origin: { userId: member.userId, username: member.user.username }
+      });
+      return { success: true };
+    }));
+  });
+  
+  // Player stalled (`waiting`) or recovered (`canplay`)
+  socket.on('buffering_state', ({ roomId, state }) => {
+    const member = getRoomUser(roomId);
+    if (!member || !BUFFERING_STATES.includes(state)) return;
+    
+    handleBufferingState(roomId, member.userId, state);
+  });
+  
+  // Turn "wait for everyone" on or off, optionally with a quorum
+  socket.on('set_wait_for_all', ({ roomId, enabled, quorum }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (!canControl(room, member.userId)) {
+      return denyControl('set_wait_for_all', 'You are not allowed to change playback settings in this room');
     }
     
-    socket.leave(roomId);
-    userRooms.delete(roomId);
-  }
+    room.videoState = {
+      ...room.videoState,
+      waitForAll: !!enabled,
+      bufferQuorum: quorum === undefined ? room.videoState.bufferQuorum : normalizeQuorum(quorum)
+    };
+    saveRoom(roomId);
+    
+    broadcastBufferingStatus(roomId);
+    // Turning it off (or lowering the quorum) may release a buffering pause
+    checkBufferingResume(roomId);
+  });
   
-  // Leave room
-  socket.on('leave_room', ({ roomId, username }) => {
-    leaveRoomCleanup(socket, roomId, username);
+  // Host only: ask everyone to confirm they're ready to start
+  socket.on('start_ready_check', ({ roomId }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (member.userId !== room.ownerId) {
+      return denyControl('start_ready_check', 'Only the host can start a ready check');
+    }
+    
+    // Hold playback while we wait for everyone
+    if (room.videoState.isPlaying) {
+      handlePlaybackAction(roomId, SYSTEM_ORIGIN, { type: 'pause' }, { reason: 'ready_check' });
+    }
+    
+    room.readyCheck = createReadyCheck(member.userId);
+    room.readyCheck.ready.add(member.userId);
+    saveRoom(roomId);
+    broadcastReadyCheck(roomId);
+    checkReadyCheckComplete(roomId);
   });
   
-  // Video state update
-  socket.on('video_state_update', ({ currentTime, isPlaying, roomId }) => {
-    if (!rooms.has(roomId)) return;
+  // Confirm (or take back) being ready
+  socket.on('ready_check_response', ({ roomId, ready }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
     
     const room = rooms.get(roomId);
-    const user = room.users.get(socket.id);
+    // Too late to change anything once the countdown has started
+    if (!room.readyCheck || room.readyCheck.startsAt) return;
     
-    if (!user) return;
+    if (ready) {
+      room.readyCheck.ready.add(member.userId);
+    } else {
+      room.readyCheck.ready.delete(member.userId);
+    }
+    saveRoom(roomId);
+    broadcastReadyCheck(roomId);
+    checkReadyCheckComplete(roomId);
+  });
+  
+  // Host only: call off a ready check
+  socket.on('cancel_ready_check', ({ roomId }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
     
-    // Update room's video state
-    room.videoState = { currentTime, isPlaying };
+    const room = rooms.get(roomId);
+    if (member.userId !== room.ownerId) {
+      return denyControl('cancel_ready_check', 'Only the host can cancel a ready check');
+    }
+    if (!room.readyCheck || room.readyCheck.startsAt) return;
     
-    // Broadcast to everyone except sender
-    socket.to(roomId).emit('video_state_update', {
-      currentTime,
-      isPlaying,
-      userId: socket.id,
-      username: user.username
-    });
+    room.readyCheck = null;
+    saveRoom(roomId);
+    broadcastReadyCheck(roomId);
   });
   
-  // Chat message
-  socket.on('chat_message', ({ text, roomId, user, timestamp }) => {
-    if (!rooms.has(roomId)) return;
+  // Host only: choose who may control playback
+  socket.on('set_control_mode', ({ roomId, mode }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (member.userId !== room.ownerId) {
+      return denyControl('set_control_mode', 'Only the host can change who controls the room');
+    }
+    if (!CONTROL_MODES.includes(mode)) {
+      return denyControl('set_control_mode', `Unknown control mode: ${mode}`);
+    }
     
-    // Generate a unique message ID that will be consistent 
-    const uniqueId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const messageId = uniqueId;
+    room.controlMode = mode;
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+  });
+  
+  // Host only: make the room private or public, and set or clear its password
+  socket.on('set_room_privacy', ({ roomId, isPrivate, password }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
     
-    // Add message to room's message history
     const room = rooms.get(roomId);
-    if (!room.messages) {
-      room.messages = [];
+    if (member.userId !== room.ownerId) {
+      return denyControl('set_room_privacy', 'Only the host can change who may join the room');
+    }
+    if (typeof password === 'string' && password.length > 128) {
+      return denyControl('set_room_privacy', 'Room passwords can be at most 128 characters');
     }
     
-    // Check if this exact message appears to be a duplicate
-    // (same text from same user within last 2 seconds)
-    const now = new Date();
-    const recentDuplicates = room.messages.filter(msg => 
-      msg.user === user && 
-      msg.text === text && 
-      (now.getTime() - new Date(msg.timestamp).getTime()) < 2000 // within 2 seconds
-    );
+    room.isPrivate = !!isPrivate;
+    // An empty password clears it; leaving it out keeps the current one
+    if (typeof password === 'string') {
+      room.passwordHash = password ? hashPassword(password) : null;
+    }
+    // Everyone already here stays allowed in
+    room.admitted = room.isPrivate ? new Set([...room.admitted, ...room.users.keys()]) : new Set();
     
-    // If this appears to be a duplicate, don't process it
-    if (recentDuplicates.length > 0) {
-      console.log(`Detected duplicate message from ${user}: "${text}"`);
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+  });
+  
+  // Invite link token for a private room, which anyone in the room may hand out
+  socket.on('create_invite', ({ roomId }, ack) => {
+    if (typeof ack !== 'function') return;
+    
+    const member = getRoomUser(roomId);
+    if (!member) {
+      return ack({ error: 'You are not in this room' });
+    }
+    
+    // Public rooms don't need one
+    if (!rooms.get(roomId).isPrivate) {
+      return ack({ token: null });
+    }
+    
+    const expiresAt = Date.now() + INVITE_TTL_MS;
+    ack({ token: createInviteToken(roomId, expiresAt), expiresAt });
+  });
+  
+  // Host only: remove a user from the room. They may join again.
+  socket.on('kick_user', ({ roomId, userId }) => {
+    const room = getModeratedRoom('kick_user', roomId, userId);
+    if (!room) return;
+    if (!room.users.has(userId)) {
+      return denyControl('kick_user', 'That user is not in the room');
+    }
+    
+    removeUserByHost(roomId, userId, 'kicked');
+  });
+  
+  // Host only: ban a user from the room for as long as it exists, or lift the ban
+  socket.on('ban_user', ({ roomId, userId, banned = true }) => {
+    const room = getModeratedRoom('ban_user', roomId, userId);
+    if (!room) return;
+    
+    if (!banned) {
+      room.banned.delete(userId);
+      saveRoom(roomId);
+      broadcastRoomControl(roomId);
       return;
     }
     
-    const newMessage = {
-      id: messageId,
-      user,
-      text,
-      timestamp: timestamp || new Date()
-    };
+    const user = room.users.get(userId);
+    if (!user) {
+      return denyControl('ban_user', 'That user is not in the room');
+    }
     
-    room.messages.push(newMessage);
+    room.banned.set(userId, user.username);
+    room.admitted.delete(userId);
+    removeUserByHost(roomId, userId, 'banned');
+  });
+  
+  // Host only: stop a user from sending chat messages, or let them again
+  socket.on('mute_user', ({ roomId, userId, muted }) => {
+    const room = getModeratedRoom('mute_user', roomId, userId);
+    if (!room) return;
+    
+    if (muted) {
+      room.muted.add(userId);
+    } else {
+      room.muted.delete(userId);
+      // Unmuting also lifts a mute for flooding
+      room.mutedUntil.delete(userId);
+    }
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+  });
+  
+  // Host only: keep new users out of the room, or let them in again
+  socket.on('lock_room', ({ roomId, locked }) => {
+    const room = getModeratedRoom('lock_room', roomId, null);
+    if (!room) return;
+    
+    room.locked = !!locked;
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+  });
+  
+  // Host only: delegate control to, or take it back from, a co-host
+  socket.on('set_cohost', ({ roomId, userId, enabled }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (member.userId !== room.ownerId) {
+      return denyControl('set_cohost', 'Only the host can choose co-hosts');
+    }
+    if (!room.users.has(userId) || userId === room.ownerId) return;
+    
+    if (enabled) {
+      room.cohosts.add(userId);
+    } else {
+      room.cohosts.delete(userId);
+    }
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+  });
+  
+  // Host only: hand the host role to someone else
+  socket.on('transfer_host', ({ roomId, userId }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (member.userId !== room.ownerId) {
+      return denyControl('transfer_host', 'Only the host can hand over the room');
+    }
+    if (!room.users.has(userId)) return;
+    
+    room.ownerId = userId;
+    room.cohosts.delete(userId);
+    saveRoom(roomId);
+    broadcastRoomControl(roomId);
+  });
+  
+  // Share a subtitle timing with the whole room, or stop sharing it (null)
+  socket.on('set_subtitle_offset', ({ roomId, offset }) => {
+    const member = getRoomUser(roomId);
+    if (!member) return;
+    
+    const room = rooms.get(roomId);
+    if (!canControl(room, member.userId)) {
+      return denyControl('set_subtitle_offset', 'You are not allowed to change the subtitle timing in this room');
+    }
+    
+    setSubtitleOffset(roomId, offset === null ? null : Math.round(offset * 10) / 10, {
+      userId: member.userId,
+      username: member.user.username
+    });
+  });
+  
+  // Chat message
+  socket.on('chat_message', ({ text, roomId, requestId, user }, ack) => {
+    // Messages are sent as the user's name in the room, not whatever the
+    // client says it is
+    const member = getRoomUser(roomId);
+    if (!member) return acknowledge(ack, { error: 'Not in room' });
+    
+    acknowledge(ack, requestLog.run(member.userId, requestId, () => {
+      if (user && user !== member.user.username) {
+        const error = 'user does not match your name in this room';
+        socket.emit('auth_error', { action: 'chat_message', error });
+        return { error };
+      }
+      if (isMuted(rooms.get(roomId), member.userId)) {
+        const error = 'The host has muted you';
+        denyControl('chat_message', error);
+        return { error };
+      }
+      
+      // Generate a unique message ID that will be consistent 
+      const messageId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      
+      // Add message to room's message history, and broadcast it to
+      // everyone including sender
+      postMessage(roomId, {
+        id: messageId,
+        user: member.user.username,
+        userId: member.userId,
+        text,
+        // Stamped here, like every message, rather than trusting the client
+        timestamp: new Date(),
+        // The moment of the movie it was sent at
+        ...getMovieAnchor(rooms.get(roomId))
+      });
+      return { success: true, messageId };
+    }));
+  });
+  
+  // A page of the room's older chat messages: the latest of those numbered
+  // below `before`, which is the oldest message the client has
+  socket.on('load_messages', ({ roomId, before, limit }, ack) => {
+    if (!getRoomUser(roomId)) return acknowledge(ack, { error: 'Not in room' });
     
-    // Broadcast to everyone including sender
-    io.to(roomId).emit('chat_message', newMessage);
+    acknowledge(ack, rooms.getMessages(roomId, { before, limit: limit || MESSAGE_PAGE_SIZE }));
   });
   
   // Handle disconnections
   socket.on('disconnect', () => {
     console.log('User disconnected:', socket.id);
     
-    // Find which rooms the user was in and clean up
-    userRooms.forEach(roomId => {
-      // Find username for this socket in this room
-      let username = undefined;
-      if (rooms.has(roomId)) {
-        const room = rooms.get(roomId);
-        const user = room.users.get(socket.id);
-        if (user) {
-          username = user.username;
-        }
+    // Hold the user's seat in each room for a while, in case they reconnect
+    Array.from(userRooms.keys()).forEach(roomId => {
+      const member = getRoomUser(roomId);
+      if (member) {
+        handleUserDisconnected(roomId, member.userId, socket.id);
       }
-      
-      leaveRoomCleanup(socket, roomId, username);
     });
     
     // Legacy cleanup for older connections
     rooms.forEach((room, roomId) => {
-      if (room.users.has(socket.id)) {
-        const user = room.users.get(socket.id);
-        leaveRoomCleanup(socket, roomId, user?.username);
+      if (!userRooms.has(roomId) && room.users.has(socket.id)) {
+        leaveRoomCleanup(socket, roomId);
       }
     });
   });
 });
 
+// Expire idle rooms
+setInterval(sweepIdleRooms, ROOM_SWEEP_INTERVAL).unref();
+
+// Forget rate limit buckets that have filled up again
+setInterval(() => rateLimiter.sweep(), ROOM_SWEEP_INTERVAL).unref();
+
+// Keep rooms in step with the other server nodes
+if (pubsub) {
+  io.on('room_changed', applyRoomChanges);
+  io.on('message_posted', receiveMessage);
+  
+  io.on('room_deleted', (roomId) => {
+    rooms.delete(roomId);
+    replication.forget(roomId);
+  });
+  
+  // A node that just started asks the others for every room they know about,
+  // with its latest messages
+  io.on('rooms_sync', (ack) => {
+    ack(Array.from(rooms.entries()).map(([roomId, room]) => {
+      shareRoomChanges(roomId);
+      return [roomId, replication.snapshot(roomId), room.messages];
+    }));
+  });
+  
+  // Give the other nodes a moment to notice us before asking
+  setTimeout(() => {
+    io.serverSideEmit('rooms_sync', (error, responses) => {
+      if (error) {
+        console.error('Error syncing rooms from other nodes:', error);
+        return;
+      }
+      
+      responses.flat().forEach(([roomId, changes, messages]) => {
+        applyRoomChanges(roomId, changes);
+        messages.forEach(message => receiveMessage(roomId, message));
+      });
+      console.log(`Synced ${rooms.size} rooms from ${responses.length} other nodes`);
+    });
+  }, ROOM_SYNC_DELAY);
+}
+
+// Write out pending room changes before exiting
+function shutdown() {
+  console.log('Shutting down, saving rooms...');
+  rooms.close();
+  pubsub?.close();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
 // Start server
 const PORT = process.env.PORT || 3001;
 httpServer.listen(PORT, () => {
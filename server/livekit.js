@@ -0,0 +1,36 @@
+// LiveKit server API, used to remove users from a room's video chat.
+//
+// Each MovieMeet room has a LiveKit room of the same name, in which users are
+// identified by their user ID (see /generate-token).
+
+import { RoomServiceClient } from 'livekit-server-sdk';
+
+let roomService = null;
+
+function getRoomService() {
+  const url = process.env.LIVEKIT_WS_URL;
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+  if (!url || !apiKey || !apiSecret) {
+    return null;
+  }
+
+  if (!roomService) {
+    // The server API is served over HTTP(S) on the same host as the WebSocket
+    roomService = new RoomServiceClient(url.replace(/^ws/, 'http'), apiKey, apiSecret);
+  }
+  return roomService;
+}
+
+// Disconnect a user from the room's video chat, if they're in it
+export async function removeLiveKitParticipant(roomId, userId) {
+  const service = getRoomService();
+  if (!service) return;
+
+  try {
+    await service.removeParticipant(roomId, userId);
+  } catch (error) {
+    // Users who never joined the video chat aren't in the LiveKit room
+    console.warn(`Failed to remove ${userId} from LiveKit room ${roomId}:`, error.message);
+  }
+}
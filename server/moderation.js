@@ -0,0 +1,44 @@
+// Host moderation.
+//
+//   - kicked users are removed from the room, but may join again
+//   - banned users are removed and can't come back for as long as the room exists
+//   - muted users can't send chat messages
+//   - a locked room doesn't let in anyone who isn't in it already
+//
+// The server itself mutes users who keep flooding the room, for a while (see
+// rateLimit.js). That mute also holds back their control events.
+
+// Whether a user may join a room as far as moderation goes. Returns null if
+// they may, or why not.
+export function checkModeration(room, userId) {
+  if (room.banned.has(userId)) {
+    return { error: 'You have been banned from this room' };
+  }
+  if (room.locked && !room.users.has(userId)) {
+    return { error: 'This room is locked' };
+  }
+  return null;
+}
+
+export function isMuted(room, userId) {
+  return room.muted.has(userId);
+}
+
+// Until when the server has muted a user for flooding the room, or null if
+// it hasn't
+export function getFloodMuteEnd(room, userId, now = Date.now()) {
+  const mutedUntil = room.mutedUntil.get(userId);
+  return mutedUntil > now ? mutedUntil : null;
+}
+
+// Moderation state as sent to clients. Users muted for flooding count as muted.
+export function serializeModeration(room, now = Date.now()) {
+  const floodMuted = Array.from(room.mutedUntil.keys())
+    .filter(userId => !room.muted.has(userId) && getFloodMuteEnd(room, userId, now));
+
+  return {
+    locked: room.locked,
+    muted: [...Array.from(room.muted), ...floodMuted],
+    banned: Array.from(room.banned.entries()).map(([userId, username]) => ({ userId, username }))
+  };
+}
@@ -0,0 +1,95 @@
+// Server-authoritative playback clock.
+//
+// A room's video state is stored as an anchor: the position when it was last
+// set, the server time at that moment and the playback rate. The live position
+// is derived from the anchor whenever it is needed, so late joiners never get a
+// stale currentTime. An anchor may lie in the future, which schedules playback
+// to start at that instant on every client.
+
+import { PLAYBACK_ACTION_TYPES } from '../shared/protocol.js';
+
+export function createVideoState(now = Date.now()) {
+  return {
+    position: 0,
+    isPlaying: false,
+    playbackRate: 1,
+    updatedAt: now,
+    // Auto-pause everyone while participants buffer, resuming once this
+    // fraction of the room is ready again
+    waitForAll: false,
+    bufferQuorum: 1
+  };
+}
+
+// Current position of the room's playback in seconds
+export function getPlaybackPosition(videoState, now = Date.now()) {
+  if (!videoState.isPlaying) {
+    return videoState.position;
+  }
+
+  const elapsed = Math.max(0, now - videoState.updatedAt) / 1000;
+  return videoState.position + elapsed * videoState.playbackRate;
+}
+
+// Re-anchor the clock. Omitted fields keep their current (derived) value.
+export function updateVideoState(videoState, { currentTime, isPlaying, playbackRate }, now = Date.now()) {
+  return {
+    ...videoState,
+    position: typeof currentTime === 'number' ? Math.max(0, currentTime) : getPlaybackPosition(videoState, now),
+    isPlaying: typeof isPlaying === 'boolean' ? isPlaying : videoState.isPlaying,
+    playbackRate: typeof playbackRate === 'number' && playbackRate > 0 ? playbackRate : videoState.playbackRate,
+    updatedAt: now
+  };
+}
+
+// Wire format sent to clients: the position at `serverTime`, which clients
+// extrapolate using their measured offset from the server clock. `startsAt` is
+// set when playback is scheduled to start at a later server time.
+export function serializeVideoState(videoState, now = Date.now()) {
+  return {
+    currentTime: getPlaybackPosition(videoState, now),
+    isPlaying: videoState.isPlaying,
+    playbackRate: videoState.playbackRate,
+    serverTime: now,
+    startsAt: videoState.isPlaying && videoState.updatedAt > now ? videoState.updatedAt : undefined,
+    waitForAll: videoState.waitForAll,
+    bufferQuorum: videoState.bufferQuorum
+  };
+}
+
+// Typed playback actions sent by clients
+export const PLAYBACK_ACTIONS = PLAYBACK_ACTION_TYPES;
+
+// Apply a playback action to the clock
+export function applyPlaybackAction(videoState, { type, currentTime, playbackRate }, now = Date.now()) {
+  switch (type) {
+    case 'play':
+      return updateVideoState(videoState, { currentTime, isPlaying: true }, now);
+    case 'pause':
+      return updateVideoState(videoState, { currentTime, isPlaying: false }, now);
+    case 'seek':
+    case 'heartbeat':
+      return updateVideoState(videoState, { currentTime }, now);
+    case 'rate':
+      return updateVideoState(videoState, { currentTime, playbackRate }, now);
+    default:
+      return videoState;
+  }
+}
+
+// Work out which action a legacy `{ currentTime, isPlaying }` update stands for
+export function inferPlaybackAction(videoState, { currentTime, isPlaying, playbackRate }, now = Date.now()) {
+  if (typeof isPlaying === 'boolean' && isPlaying !== videoState.isPlaying) {
+    return { type: isPlaying ? 'play' : 'pause', currentTime };
+  }
+
+  if (typeof playbackRate === 'number' && playbackRate !== videoState.playbackRate) {
+    return { type: 'rate', currentTime, playbackRate };
+  }
+
+  if (typeof currentTime === 'number' && Math.abs(currentTime - getPlaybackPosition(videoState, now)) > 1) {
+    return { type: 'seek', currentTime };
+  }
+
+  return { type: 'heartbeat', currentTime };
+}
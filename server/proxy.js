@@ -14,6 +14,9 @@ const axios = require('axios');
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// How long to wait for Archive.org before giving up
+const ARCHIVE_TIMEOUT_MS = 10000;
+
 // Enable CORS for your frontend domains
 app.use(cors({
   origin: ['http://localhost:5173', 'https://movie-meet-1a81b.web.app'],
@@ -33,7 +36,8 @@ app.get('/api/archive/thumbnail/:id', async (req, res) => {
     
     // Proxy the request to Archive.org
     const response = await axios.get(`https://archive.org/services/img/${id}`, {
-      responseType: 'stream'
+      responseType: 'stream',
+      timeout: ARCHIVE_TIMEOUT_MS
     });
     
     // Forward the response headers and data
@@ -57,7 +61,7 @@ app.get('/api/archive/validate/:id', async (req, res) => {
     }
     
     // Check if the ID exists by checking its metadata
-    const response = await axios.get(`https://archive.org/metadata/${id}`);
+    const response = await axios.get(`https://archive.org/metadata/${id}`, { timeout: ARCHIVE_TIMEOUT_MS });
     
     if (response.status === 200 && response.data && response.data.metadata) {
       res.json({ 
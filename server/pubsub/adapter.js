@@ -0,0 +1,53 @@
+// Socket.IO adapter on top of a pub/sub.
+//
+// Broadcasts such as `io.to(roomId).emit(...)`, room joins and
+// `io.serverSideEmit(...)` are published to every node, each of which delivers
+// them to its own sockets. Node liveness is tracked with heartbeats by the
+// Socket.IO cluster adapter.
+
+import { ClusterAdapterWithHeartbeat } from 'socket.io-adapter';
+
+const CHANNEL_PREFIX = 'moviemeet';
+
+class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(nsp, pubsub, opts) {
+    super(nsp, opts);
+    this.pubsub = pubsub;
+    this.channel = `${CHANNEL_PREFIX}#${nsp.name}#`;
+
+    this.unsubscribers = [
+      pubsub.subscribe(this.channel, message => this.onMessage(message)),
+      // Responses addressed to this node only
+      pubsub.subscribe(this.responseChannel(this.uid), response => this.onResponse(response))
+    ];
+  }
+
+  responseChannel(uid) {
+    return `${this.channel}${uid}#`;
+  }
+
+  async doPublish(message) {
+    await this.pubsub.publish(this.channel, message);
+    // Offsets are only needed for connection state recovery, which we don't use
+    return '';
+  }
+
+  async doPublishResponse(requesterUid, response) {
+    await this.pubsub.publish(this.responseChannel(requesterUid), response);
+  }
+
+  close() {
+    super.close();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+// Adapter constructor for `io.adapter(...)`
+export function createPubSubAdapter(pubsub, opts = {}) {
+  return function (nsp) {
+    const adapter = new PubSubAdapter(nsp, pubsub, opts);
+    // Announce ourselves so the other nodes start counting us
+    adapter.init();
+    return adapter;
+  };
+}
@@ -0,0 +1,38 @@
+// Pub/sub used to run several server processes side by side.
+//
+// Every backend exposes:
+//   - publish(channel, message): send a JSON message to every subscriber
+//   - subscribe(channel, handler): returns a function that unsubscribes
+//   - nextSequence(key, floor): the next number of a counter shared by every
+//     node, and never at or below `floor`, which seeds a new counter
+//   - close()
+//
+// Backends:
+//   - 'none':  a single process, nothing is shared (the default)
+//   - 'local': in-process fake, for tests and trying out clustering locally
+//   - 'redis': Redis pub/sub at REDIS_URL
+
+import { createLocalPubSub } from './localPubSub.js';
+
+export const PUBSUB_DRIVERS = ['none', 'local', 'redis'];
+
+export async function createPubSub({
+  driver = process.env.PUBSUB || 'none',
+  url = process.env.REDIS_URL || 'redis://localhost:6379'
+} = {}) {
+  switch (driver) {
+    case 'none':
+      return null;
+    case 'local':
+      return createLocalPubSub();
+    case 'redis': {
+      // Only load the Redis client when it's actually used
+      const { createRedisPubSub } = await import('./redisPubSub.js');
+      return createRedisPubSub({ url });
+    }
+    default:
+      throw new Error(`Unknown pub/sub: ${driver} (expected one of ${PUBSUB_DRIVERS.join(', ')})`);
+  }
+}
+
+export { createPubSubAdapter } from './adapter.js';
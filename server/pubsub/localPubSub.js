@@ -0,0 +1,46 @@
+// In-process pub/sub, standing in for Redis in tests and local development.
+//
+// Every pub/sub created on the same bus sees the others' messages, so several
+// Socket.IO servers in one process behave like separate nodes. Messages are
+// copied through JSON and delivered asynchronously, as they would be over the
+// network.
+
+import { EventEmitter } from 'events';
+
+const defaultBus = new EventEmitter();
+defaultBus.setMaxListeners(0);
+
+// Counters shared by every pub/sub on a bus, as Redis keys are
+const busCounters = new WeakMap();
+
+export function createLocalPubSub({ bus = defaultBus } = {}) {
+  const subscriptions = [];
+  if (!busCounters.has(bus)) {
+    busCounters.set(bus, new Map());
+  }
+  const counters = busCounters.get(bus);
+
+  return {
+    async publish(channel, message) {
+      const payload = JSON.stringify(message);
+      setImmediate(() => bus.emit(channel, JSON.parse(payload)));
+    },
+    // Returns a function that removes the subscription
+    subscribe(channel, handler) {
+      bus.on(channel, handler);
+      subscriptions.push([channel, handler]);
+      return () => bus.off(channel, handler);
+    },
+    async nextSequence(key, floor = 0) {
+      const next = Math.max(counters.get(key) || 0, floor) + 1;
+      counters.set(key, next);
+      return next;
+    },
+    async close() {
+      for (const [channel, handler] of subscriptions) {
+        bus.off(channel, handler);
+      }
+      subscriptions.length = 0;
+    }
+  };
+}
@@ -0,0 +1,57 @@
+// Redis pub/sub. A Redis connection in subscriber mode can't publish, so one
+// connection publishes and a second one subscribes. Shared counters are
+// plain Redis keys, incremented on the publishing connection.
+
+import { createClient } from 'redis';
+
+const KEY_PREFIX = 'moviemeet:';
+
+// INCR, but jumping past ARGV[1] first, so a counter created after the
+// numbers it counts were handed out carries on from them
+const NEXT_SEQUENCE_SCRIPT = `
+  local next = redis.call('INCR', KEYS[1])
+  local floor = tonumber(ARGV[1])
+  if next <= floor then
+    next = floor + 1
+    redis.call('SET', KEYS[1], next)
+  end
+  return next
+`;
+
+export async function createRedisPubSub({ url }) {
+  const publisher = createClient({ url });
+  const subscriber = publisher.duplicate();
+
+  publisher.on('error', error => console.error('Redis publisher error:', error));
+  subscriber.on('error', error => console.error('Redis subscriber error:', error));
+
+  await Promise.all([publisher.connect(), subscriber.connect()]);
+
+  return {
+    async publish(channel, message) {
+      await publisher.publish(channel, JSON.stringify(message));
+    },
+    // Returns a function that removes the subscription
+    subscribe(channel, handler) {
+      const listener = payload => {
+        try {
+          handler(JSON.parse(payload));
+        } catch (error) {
+          console.error(`Error handling message on ${channel}:`, error);
+        }
+      };
+
+      subscriber.subscribe(channel, listener);
+      return () => subscriber.unsubscribe(channel, listener);
+    },
+    async nextSequence(key, floor = 0) {
+      return publisher.eval(NEXT_SEQUENCE_SCRIPT, {
+        keys: [`${KEY_PREFIX}${key}`],
+        arguments: [String(floor)]
+      });
+    },
+    async close() {
+      await Promise.all([publisher.quit(), subscriber.quit()]);
+    }
+  };
+}
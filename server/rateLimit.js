@@ -0,0 +1,135 @@
+// Token-bucket rate limits on chat and control events.
+//
+// Chat messages and control events (playback, the movie, host commands) each
+// have a bucket per user in a room and one for the whole room. A bucket holds
+// up to `capacity` tokens and refills at `capacity` tokens per `intervalMs`.
+// Every event takes a token from both buckets, and is refused while either is
+// empty. A user who keeps running into their own limit earns strikes; enough
+// strikes within a minute and they should be muted for a while.
+
+// Which limit each rate-limited client event counts against
+export const RATE_LIMITED_EVENTS = {
+  chat_message: 'chat',
+  playback_action: 'control',
+  video_state_update: 'control',
+  select_movie: 'control',
+  set_wait_for_all: 'control',
+  start_ready_check: 'control',
+  ready_check_response: 'control',
+  cancel_ready_check: 'control',
+  set_control_mode: 'control',
+  set_cohost: 'control',
+  transfer_host: 'control',
+  set_room_privacy: 'control',
+  kick_user: 'control',
+  ban_user: 'control',
+  mute_user: 'control',
+  lock_room: 'control',
+  set_subtitle_offset: 'control'
+};
+
+// `<capacity>/<seconds>` for each limit. Heartbeats from whoever last
+// controlled playback take a control token every 5 seconds.
+export const DEFAULT_RATE_LIMITS = {
+  chat: { user: '5/5', room: '30/10' },
+  control: { user: '10/5', room: '40/10' }
+};
+
+const DEFAULT_STRIKES_TO_MUTE = 5;
+const STRIKE_WINDOW_MS = 60 * 1000;
+
+// Parse a `<capacity>/<seconds>` limit, e.g. `5/10` for 5 events per 10 seconds
+export function parseRateLimit(value) {
+  const match = /^\s*(\d+)\s*\/\s*(\d+(?:\.\d+)?)\s*$/.exec(String(value));
+  const capacity = match && Number(match[1]);
+  const seconds = match && Number(match[2]);
+  if (!capacity || !seconds) {
+    throw new Error(`Invalid rate limit "${value}", expected <capacity>/<seconds>`);
+  }
+  return { capacity, intervalMs: seconds * 1000 };
+}
+
+// `limits` maps each kind of event to its `{ user, room }` limits
+export function createRateLimiter({
+  limits = DEFAULT_RATE_LIMITS,
+  strikesToMute = DEFAULT_STRIKES_TO_MUTE
+} = {}) {
+  const parsedLimits = Object.fromEntries(Object.entries(limits).map(([kind, { user, room }]) => [
+    kind,
+    { user: parseRateLimit(user), room: parseRateLimit(room) }
+  ]));
+  // `<kind>:<roomId>[:<userId>]` -> { limit, tokens, updatedAt }
+  const buckets = new Map();
+  // `<roomId>:<userId>` -> times the user ran into their limit
+  const strikes = new Map();
+
+  // The bucket's tokens as of `now`
+  function refill(key, limit, now) {
+    const bucket = buckets.get(key) || { limit, tokens: limit.capacity, updatedAt: now };
+    const refilled = (now - bucket.updatedAt) * limit.capacity / limit.intervalMs;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+    return bucket;
+  }
+
+  // How long until the bucket has a token again
+  function retryAfter(bucket, limit) {
+    return Math.ceil((1 - bucket.tokens) * limit.intervalMs / limit.capacity);
+  }
+
+  // Returns true once the user has run into their limit often enough to be muted
+  function addStrike(roomId, userId, now) {
+    const key = `${roomId}:${userId}`;
+    const recent = (strikes.get(key) || []).filter(time => now - time < STRIKE_WINDOW_MS);
+    recent.push(now);
+    if (recent.length >= strikesToMute) {
+      strikes.delete(key);
+      return true;
+    }
+    strikes.set(key, recent);
+    return false;
+  }
+
+  // Take a token for a user's event. Returns null if they may go ahead;
+  // otherwise which limit they hit, how long until they may try again, and
+  // whether they should now be muted.
+  function consume(kind, roomId, userId, now = Date.now()) {
+    const limit = parsedLimits[kind];
+    if (!limit) return null;
+
+    const userBucket = refill(`${kind}:${roomId}:${userId}`, limit.user, now);
+    const roomBucket = refill(`${kind}:${roomId}`, limit.room, now);
+
+    if (userBucket.tokens < 1) {
+      return {
+        scope: 'user',
+        retryAfter: retryAfter(userBucket, limit.user),
+        mute: addStrike(roomId, userId, now)
+      };
+    }
+    if (roomBucket.tokens < 1) {
+      return { scope: 'room', retryAfter: retryAfter(roomBucket, limit.room), mute: false };
+    }
+
+    userBucket.tokens -= 1;
+    roomBucket.tokens -= 1;
+    return null;
+  }
+
+  // Forget buckets that have filled up again, and old strikes
+  function sweep(now = Date.now()) {
+    for (const [key, { limit }] of buckets) {
+      if (refill(key, limit, now).tokens >= limit.capacity) {
+        buckets.delete(key);
+      }
+    }
+    for (const [key, times] of strikes) {
+      if (times.every(time => now - time >= STRIKE_WINDOW_MS)) {
+        strikes.delete(key);
+      }
+    }
+  }
+
+  return { consume, sweep };
+}
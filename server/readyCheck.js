@@ -0,0 +1,51 @@
+// Ready checks: before starting a movie the host asks everyone to confirm
+// they're ready. Once every participant has confirmed, playback is scheduled to
+// start at the same server time for everyone, after a short countdown.
+
+export const READY_CHECK_COUNTDOWN_MS = 3000;
+
+export function createReadyCheck(startedBy, now = Date.now()) {
+  return {
+    id: `ready-${now}`,
+    startedBy,
+    startedAt: now,
+    ready: new Set(),
+    // Server time playback starts at, once everyone is ready
+    startsAt: null
+  };
+}
+
+// Everyone currently in the room has confirmed. Users who join mid-check
+// have to confirm too.
+export function isEveryoneReady(room) {
+  const { readyCheck } = room;
+  if (!readyCheck || room.users.size === 0) {
+    return false;
+  }
+
+  for (const userId of room.users.keys()) {
+    if (!readyCheck.ready.has(userId)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Ready check state as sent to clients, or null when none is running
+export function serializeReadyCheck(room) {
+  const { readyCheck } = room;
+  if (!readyCheck) {
+    return null;
+  }
+
+  return {
+    id: readyCheck.id,
+    startedBy: readyCheck.startedBy,
+    startsAt: readyCheck.startsAt || undefined,
+    participants: Array.from(room.users.entries()).map(([userId, user]) => ({
+      userId,
+      username: user.username,
+      ready: readyCheck.ready.has(userId)
+    }))
+  };
+}
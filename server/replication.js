@@ -0,0 +1,177 @@
+// Replication of rooms between server nodes.
+//
+// Nodes don't send each other whole rooms. Each change is sent as the fields
+// of the room, and the entries of its collections, that it touched. Every one
+// of those is stamped with when it was changed and by which node, and a node
+// only takes it if it has nothing later for the same field or entry. Changes
+// made on different nodes at the same time then merge instead of replacing
+// each other, and every node ends up with the same room whatever order the
+// changes reach it in.
+//
+// Chat messages aren't replicated here: they're numbered from a counter the
+// nodes share and sent one by one as they're posted.
+
+const plain = {
+  encode: value => value,
+  decode: value => value
+};
+
+// Fields replicated as a whole
+const VALUE_FIELDS = {
+  ownerId: plain,
+  controlMode: plain,
+  isPrivate: plain,
+  passwordHash: plain,
+  locked: plain,
+  currentMovie: plain,
+  videoState: plain,
+  playbackSeq: plain,
+  lastActionBy: plain,
+  subtitleOffset: plain,
+  bufferPaused: plain,
+  readyCheck: {
+    encode: readyCheck => readyCheck && { ...readyCheck, ready: Array.from(readyCheck.ready) },
+    decode: readyCheck => readyCheck && { ...readyCheck, ready: new Set(readyCheck.ready) }
+  },
+  lastActiveAt: plain
+};
+
+// Collections replicated entry by entry. Sets are sent as entries without a
+// value.
+const MAP_FIELDS = ['users', 'banned', 'mutedUntil', 'sessions'];
+const SET_FIELDS = ['cohosts', 'admitted', 'muted', 'buffering'];
+
+const getPath = (field, key) => (key === undefined ? field : `${field}:${key}`);
+
+// Orders stamps, which are `[time, nodeId]`
+export function compareStamps(a, b) {
+  if (a[0] !== b[0]) return a[0] - b[0];
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+// Every field and collection entry of a room, encoded as it's sent
+function getEntries(room) {
+  const entries = new Map();
+
+  for (const [field, { encode }] of Object.entries(VALUE_FIELDS)) {
+    entries.set(field, { field, value: encode(room[field]) ?? null });
+  }
+  for (const field of MAP_FIELDS) {
+    for (const [key, value] of room[field]) {
+      entries.set(getPath(field, key), { field, key, value });
+    }
+  }
+  for (const field of SET_FIELDS) {
+    for (const key of room[field]) {
+      entries.set(getPath(field, key), { field, key });
+    }
+  }
+  return entries;
+}
+
+function applyChange(room, { field, key, value, deleted }) {
+  if (key === undefined) {
+    room[field] = VALUE_FIELDS[field].decode(value);
+  } else if (deleted) {
+    room[field].delete(key);
+  } else if (SET_FIELDS.includes(field)) {
+    room[field].add(key);
+  } else {
+    room[field].set(key, value);
+  }
+}
+
+export function createRoomReplication({ nodeId }) {
+  // Room ID -> { entries, stamps }: what the other nodes were last told about
+  // the room, or told us, and the stamp of every field and entry. Stamps of
+  // deleted entries are kept, so an older change can't bring them back.
+  const replicas = new Map();
+  // Time of the latest stamp we've seen, so ours always come after it even if
+  // our clock is behind
+  let clock = 0;
+
+  function getReplica(roomId) {
+    if (!replicas.has(roomId)) {
+      replicas.set(roomId, { entries: new Map(), stamps: new Map() });
+    }
+    return replicas.get(roomId);
+  }
+
+  function tick() {
+    clock = Math.max(Date.now(), clock + 1);
+    return [clock, nodeId];
+  }
+
+  // Changes made to a room since it was last diffed or took changes from
+  // other nodes, stamped as ours
+  function diff(roomId, room) {
+    const replica = getReplica(roomId);
+    const entries = getEntries(room);
+    const changes = [];
+    let stamp = null;
+
+    const record = (path, change) => {
+      stamp = stamp || tick();
+      replica.stamps.set(path, stamp);
+      changes.push({ ...change, stamp });
+    };
+
+    for (const [path, entry] of entries) {
+      const encoded = JSON.stringify(entry.value);
+      const known = replica.entries.get(path);
+      if (known && JSON.stringify(known.value) === encoded) continue;
+
+      // Kept as sent, so comparing it later isn't thrown off by e.g. Dates
+      const sent = { ...entry, value: entry.value === undefined ? undefined : JSON.parse(encoded) };
+      replica.entries.set(path, sent);
+      record(path, sent);
+    }
+    for (const [path, { field, key }] of Array.from(replica.entries)) {
+      if (entries.has(path)) continue;
+
+      replica.entries.delete(path);
+      record(path, { field, key, deleted: true });
+    }
+
+    return changes;
+  }
+
+  // Apply changes from another node to a room, except those to fields or
+  // entries we have later changes to. Returns whether any were applied.
+  function apply(roomId, room, changes) {
+    const replica = getReplica(roomId);
+    let applied = false;
+
+    for (const change of changes) {
+      clock = Math.max(clock, change.stamp[0]);
+
+      const path = getPath(change.field, change.key);
+      const stamp = replica.stamps.get(path);
+      if (stamp && compareStamps(stamp, change.stamp) >= 0) continue;
+
+      replica.stamps.set(path, change.stamp);
+      if (change.deleted) {
+        replica.entries.delete(path);
+      } else {
+        replica.entries.set(path, { field: change.field, key: change.key, value: change.value });
+      }
+      applyChange(room, change);
+      applied = true;
+    }
+
+    return applied;
+  }
+
+  // Every field and entry of a room as we last shared it, for a node that
+  // doesn't know the room yet
+  function snapshot(roomId) {
+    const replica = getReplica(roomId);
+    return Array.from(replica.entries, ([path, entry]) => ({ ...entry, stamp: replica.stamps.get(path) }));
+  }
+
+  function forget(roomId) {
+    replicas.delete(roomId);
+  }
+
+  return { diff, apply, snapshot, forget };
+}
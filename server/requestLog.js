@@ -0,0 +1,83 @@
+// Exactly-once handling of client actions.
+//
+// Clients tag each action (joining, leaving, playback, chat, changing the
+// movie) with a `requestId` and resend it with the same ID until the server
+// acknowledges it. The response to every request is kept for a while, so a
+// resent request gets the original response instead of being applied and
+// broadcast again. Requests without an ID are always handled.
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10000;
+
+export function isValidRequestId(requestId) {
+  return typeof requestId === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(requestId);
+}
+
+export function createRequestLog({ ttlMs = DEFAULT_TTL_MS, maxEntries = DEFAULT_MAX_ENTRIES } = {}) {
+  // `<senderId>:<requestId>` -> { status, body, expiresAt }, oldest first
+  const entries = new Map();
+
+  function get(senderId, requestId, now = Date.now()) {
+    const key = `${senderId}:${requestId}`;
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  function set(senderId, requestId, status, body, now = Date.now()) {
+    const key = `${senderId}:${requestId}`;
+    entries.delete(key);
+    entries.set(key, { status, body, expiresAt: now + ttlMs });
+
+    // Forget the oldest requests first
+    for (const oldestKey of entries.keys()) {
+      if (entries.size <= maxEntries) break;
+      entries.delete(oldestKey);
+    }
+  }
+
+  // Run `handler` for a request unless it was handled before, returning its
+  // response either way
+  function run(senderId, requestId, handler) {
+    if (!isValidRequestId(requestId)) return handler();
+
+    const handled = get(senderId, requestId);
+    if (handled) return handled.body;
+
+    const body = handler();
+    set(senderId, requestId, body?.error ? 400 : 200, body);
+    return body;
+  }
+
+  return { get, set, run };
+}
+
+// Express middleware answering a resent request with the response to the
+// first one, without handling it again. Goes after `authenticate`.
+export function dedupeRequests(requestLog) {
+  return (req, res, next) => {
+    const requestId = req.body?.requestId;
+    const senderId = req.authUser?.uid || req.body?.userId;
+    if (!isValidRequestId(requestId) || !senderId) return next();
+
+    const handled = requestLog.get(senderId, requestId);
+    if (handled) {
+      return res.status(handled.status).json(handled.body);
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      // Server errors and rate limits go away, so those requests may be
+      // tried again
+      if (res.statusCode < 500 && res.statusCode !== 429) {
+        requestLog.set(senderId, requestId, res.statusCode, body);
+      }
+      return json(body);
+    };
+    next();
+  };
+}
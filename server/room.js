@@ -0,0 +1,143 @@
+// Room state and its persisted form.
+//
+// Only what should outlive a restart is persisted: the host, control, access
+// and moderation settings, movie, playback clock, shared subtitle timing and
+// chat history. Who is connected, their sessions, who is buffering and any
+// running ready check are rebuilt as users join again.
+//
+// A room only holds its latest chat messages, which new users get when they
+// join. The full history is kept by the room store and read a page at a time.
+
+import crypto from 'crypto';
+import { DEFAULT_CONTROL_MODE } from './roomControl.js';
+import { createVideoState, updateVideoState, getPlaybackPosition } from './playbackClock.js';
+
+// How many of its latest chat messages a room holds
+export const RECENT_MESSAGE_LIMIT = 50;
+
+export function createRoom(ownerId, now = Date.now()) {
+  return {
+    users: new Map(),
+    // Host of the room and who else may control playback
+    ownerId,
+    controlMode: DEFAULT_CONTROL_MODE,
+    cohosts: new Set(),
+    // Private rooms only let in admitted users, or new ones with the password
+    // or an invite (see roomAccess.js)
+    isPrivate: false,
+    passwordHash: null,
+    admitted: new Set(),
+    // Host moderation: whether new users are kept out, who may not chat and
+    // who may not come back (by user ID, with their name)
+    locked: false,
+    muted: new Set(),
+    banned: new Map(),
+    // Users the server muted for flooding the room, and until when
+    mutedUntil: new Map(),
+    currentMovie: null,
+    videoState: createVideoState(now),
+    // Seconds everyone's subtitles are delayed by, or null while each viewer
+    // sets their own. Cleared when the movie changes.
+    subtitleOffset: null,
+    // Sequence number of the last playback action, so clients can drop stale updates
+    playbackSeq: 0,
+    // User whose action last set the clock; only their heartbeats re-anchor it
+    lastActionBy: null,
+    // Users whose players are stalled, and whether we paused the room for them
+    buffering: new Set(),
+    bufferPaused: false,
+    // Ready check started by the host, if one is running
+    readyCheck: null,
+    // Session tokens handed out on join, hashed (see hashSessionToken), mapped
+    // to the user they resume
+    sessions: new Map(),
+    // Latest chat messages, oldest first, and the sequence number of the last
+    // one. Messages are numbered from 1, and paged through by number.
+    messages: [],
+    messageSeq: 0,
+    // Last time the room changed, used to expire idle rooms
+    lastActiveAt: now
+  };
+}
+
+// Plain JSON form of a room for a store
+export function toRoomSnapshot(room) {
+  return {
+    ownerId: room.ownerId,
+    controlMode: room.controlMode,
+    cohosts: Array.from(room.cohosts),
+    isPrivate: room.isPrivate,
+    passwordHash: room.passwordHash,
+    admitted: Array.from(room.admitted),
+    locked: room.locked,
+    muted: Array.from(room.muted),
+    banned: Array.from(room.banned.entries()),
+    mutedUntil: Array.from(room.mutedUntil.entries()),
+    currentMovie: room.currentMovie,
+    videoState: room.videoState,
+    playbackSeq: room.playbackSeq,
+    subtitleOffset: room.subtitleOffset,
+    messages: room.messages,
+    messageSeq: room.messageSeq,
+    lastActiveAt: room.lastActiveAt
+  };
+}
+
+// Rebuild a room from a snapshot. Nobody is connected to a reloaded room, so a
+// movie that was playing is paused where it was when the room was last saved.
+export function restoreRoom(snapshot) {
+  const room = createRoom(snapshot.ownerId, snapshot.lastActiveAt);
+  let { videoState } = snapshot;
+
+  if (videoState.isPlaying) {
+    videoState = updateVideoState(videoState, {
+      currentTime: getPlaybackPosition(videoState, snapshot.lastActiveAt),
+      isPlaying: false
+    }, snapshot.lastActiveAt);
+  }
+
+  return {
+    ...room,
+    controlMode: snapshot.controlMode || room.controlMode,
+    cohosts: new Set(snapshot.cohosts || []),
+    isPrivate: !!snapshot.isPrivate,
+    passwordHash: snapshot.passwordHash || null,
+    admitted: new Set(snapshot.admitted || []),
+    locked: !!snapshot.locked,
+    muted: new Set(snapshot.muted || []),
+    banned: new Map(snapshot.banned || []),
+    mutedUntil: new Map(snapshot.mutedUntil || []),
+    currentMovie: snapshot.currentMovie ?? null,
+    videoState: { ...room.videoState, ...videoState },
+    playbackSeq: snapshot.playbackSeq || 0,
+    subtitleOffset: snapshot.subtitleOffset ?? null,
+    messages: (snapshot.messages || []).slice(-RECENT_MESSAGE_LIMIT),
+    messageSeq: snapshot.messageSeq || 0
+  };
+}
+
+// The room's movie and where it's at, stamped on chat messages so they can be
+// replayed from that moment
+export function getMovieAnchor(room, now = Date.now()) {
+  if (!room.currentMovie) return {};
+
+  const position = getPlaybackPosition(room.videoState, now);
+  return { movieId: room.currentMovie, position: Math.round(position * 10) / 10 };
+}
+
+// Add a numbered chat message to the room's latest messages. Messages posted
+// on other server nodes may arrive out of order, or more than once.
+export function addMessage(room, message) {
+  if (room.messages.some(existing => existing.seq === message.seq)) return;
+
+  room.messageSeq = Math.max(room.messageSeq, message.seq);
+  room.messages = [...room.messages, message]
+    .sort((a, b) => a.seq - b.seq)
+    .slice(-RECENT_MESSAGE_LIMIT);
+}
+
+// Rooms keep session tokens hashed, as they're shared with the other server
+// nodes
+export function hashSessionToken(sessionToken) {
+  return crypto.createHash('sha256').update(sessionToken).digest('base64url');
+}
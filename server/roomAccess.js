@@ -0,0 +1,98 @@
+// Private rooms.
+//
+// Anyone can join a public room. A private room only lets in users who were
+// already admitted to it, and new users who bring either the room password
+// (if the host set one) or an invite token. Invite tokens are signed with
+// INVITE_SECRET and expire; they look like `<expiry in base 36>.<signature>`.
+
+import crypto from 'crypto';
+
+export const DEFAULT_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SCRYPT_KEY_LENGTH = 32;
+
+let generatedSecret = null;
+
+function getInviteSecret() {
+  if (process.env.INVITE_SECRET) {
+    return process.env.INVITE_SECRET;
+  }
+
+  // Without a configured secret, invites only work on this process until it
+  // restarts
+  if (!generatedSecret) {
+    console.warn('INVITE_SECRET is not set; invite links will stop working when the server restarts');
+    generatedSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
+
+// Salted scrypt hash of a room password, as `<salt>:<hash>`
+export function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password, passwordHash) {
+  if (typeof password !== 'string' || !passwordHash) return false;
+
+  const [salt, hash] = passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function signInvite(roomId, expiresAt) {
+  return crypto
+    .createHmac('sha256', getInviteSecret())
+    .update(`${roomId}:${expiresAt}`)
+    .digest('base64url');
+}
+
+export function createInviteToken(roomId, expiresAt) {
+  return `${expiresAt.toString(36)}.${signInvite(roomId, expiresAt)}`;
+}
+
+export function verifyInviteToken(roomId, token, now = Date.now()) {
+  if (typeof token !== 'string') return false;
+
+  const [expiry, signature] = token.split('.');
+  const expiresAt = parseInt(expiry, 36);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt <= now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signInvite(roomId, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Whether a user may join a room. Returns null if they may, or why not.
+export function checkRoomAccess(room, roomId, userId, { password, inviteToken } = {}, now = Date.now()) {
+  if (!room.isPrivate || room.admitted.has(userId) || room.users.has(userId)) {
+    return null;
+  }
+
+  if (verifyInviteToken(roomId, inviteToken, now) || verifyPassword(password, room.passwordHash)) {
+    return null;
+  }
+
+  const passwordRequired = !!room.passwordHash;
+  let error = 'This room is private. Ask the host for an invite link.';
+  if (password) {
+    error = 'Wrong room password';
+  } else if (passwordRequired) {
+    error = 'This room is private. Enter its password or use an invite link.';
+  }
+
+  return { error, passwordRequired };
+}
+
+// Access settings as sent to clients; the password itself never leaves the server
+export function serializeRoomAccess(room) {
+  return {
+    isPrivate: room.isPrivate,
+    hasPassword: !!room.passwordHash
+  };
+}
@@ -0,0 +1,55 @@
+// Who may control playback and movie selection in a room.
+//
+// Every room has an owner (the host), recorded when the room is created, and a
+// control mode:
+//   - 'host':     only the host
+//   - 'everyone': anyone in the room
+//   - 'cohosts':  the host plus users the host has delegated control to
+
+export { CONTROL_MODES } from '../shared/protocol.js';
+
+export const DEFAULT_CONTROL_MODE = 'everyone';
+
+export function canControl(room, userId) {
+  if (!userId || !room.users.has(userId)) {
+    return false;
+  }
+
+  switch (room.controlMode) {
+    case 'everyone':
+      return true;
+    case 'cohosts':
+      return userId === room.ownerId || room.cohosts.has(userId);
+    case 'host':
+    default:
+      return userId === room.ownerId;
+  }
+}
+
+// When the host leaves, hand the room to whoever has been there longest
+export function reassignOwner(room) {
+  if (room.ownerId && room.users.has(room.ownerId)) {
+    return false;
+  }
+
+  const [nextOwnerId] = room.users.keys();
+  room.ownerId = nextOwnerId || null;
+  if (room.ownerId) {
+    room.cohosts.delete(room.ownerId);
+  }
+
+  return true;
+}
+
+// Control state as sent to clients
+export function serializeRoomControl(room) {
+  return {
+    ownerId: room.ownerId,
+    controlMode: room.controlMode,
+    cohosts: Array.from(room.cohosts).filter(userId => room.users.has(userId)),
+    users: Array.from(room.users.entries()).map(([userId, user]) => ({
+      userId,
+      username: user.username
+    }))
+  };
+}
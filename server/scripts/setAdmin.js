@@ -0,0 +1,30 @@
+// Grant or revoke admin access for a user.
+//
+//   node scripts/setAdmin.js <email or uid> [--revoke]
+//
+// Needs service account credentials, e.g. GOOGLE_APPLICATION_CREDENTIALS
+// pointing at a key file. The user has to sign in again (or refresh their ID
+// token) before the change shows up.
+
+import dotenv from 'dotenv';
+import { setAdminClaim, getUserByEmail } from '../auth.js';
+
+dotenv.config();
+
+const [target, flag] = process.argv.slice(2);
+
+if (!target) {
+  console.error('Usage: node scripts/setAdmin.js <email or uid> [--revoke]');
+  process.exit(1);
+}
+
+const admin = flag !== '--revoke';
+
+try {
+  const uid = target.includes('@') ? (await getUserByEmail(target)).uid : target;
+  await setAdminClaim(uid, admin);
+  console.log(`${admin ? 'Granted' : 'Revoked'} admin access for ${target} (${uid})`);
+} catch (error) {
+  console.error('Failed to update admin access:', error.message);
+  process.exit(1);
+}
@@ -0,0 +1,36 @@
+// Room store: where rooms, their chat history and playback state are kept.
+//
+// Every backend exposes the same Map-like interface (get, has, set, delete,
+// forEach, entries, size) plus:
+//   - save(roomId): persist changes made to a room in place
+//   - close():      write out pending changes and release resources
+//   - appendMessage(roomId, message): add a numbered message to the room's
+//     chat history
+//   - getMessages(roomId, { before, limit }): the latest `limit` messages
+//     numbered below `before`, oldest first, and whether there are older ones
+//
+// Backends:
+//   - 'memory': rooms live only as long as the process (the default), and
+//     keep their latest 1000 messages
+//   - 'sqlite': rooms are kept in a SQLite file and reloaded on boot
+
+import { createMemoryRoomStore } from './memoryStore.js';
+
+export const ROOM_STORE_DRIVERS = ['memory', 'sqlite'];
+
+export async function createRoomStore({
+  driver = process.env.ROOM_STORE || 'memory',
+  filename = process.env.ROOM_STORE_PATH || './data/rooms.db'
+} = {}) {
+  switch (driver) {
+    case 'memory':
+      return createMemoryRoomStore();
+    case 'sqlite': {
+      // Only load the native SQLite module when it's actually used
+      const { createSqliteRoomStore } = await import('./sqliteStore.js');
+      return createSqliteRoomStore({ filename });
+    }
+    default:
+      throw new Error(`Unknown room store: ${driver} (expected one of ${ROOM_STORE_DRIVERS.join(', ')})`);
+  }
+}
@@ -0,0 +1,52 @@
+// In-memory room store. Rooms are lost when the server stops, and each room
+// only keeps its latest chat messages.
+
+const DEFAULT_MAX_MESSAGES = 1000;
+
+export function createMemoryRoomStore({ maxMessages = DEFAULT_MAX_MESSAGES } = {}) {
+  const rooms = new Map();
+  // Room ID -> its chat history, oldest first
+  const histories = new Map();
+
+  return {
+    get: roomId => rooms.get(roomId),
+    has: roomId => rooms.has(roomId),
+    set(roomId, room) {
+      rooms.set(roomId, room);
+    },
+    delete(roomId) {
+      histories.delete(roomId);
+      return rooms.delete(roomId);
+    },
+    forEach: callback => rooms.forEach(callback),
+    entries: () => rooms.entries(),
+    get size() {
+      return rooms.size;
+    },
+    appendMessage(roomId, message) {
+      const history = histories.get(roomId) || [];
+      // Messages posted on other nodes may arrive out of order, or again
+      let index = history.length;
+      while (index > 0 && history[index - 1].seq > message.seq) {
+        index -= 1;
+      }
+      if (index > 0 && history[index - 1].seq === message.seq) return;
+
+      history.splice(index, 0, message);
+      if (history.length > maxMessages) {
+        history.splice(0, history.length - maxMessages);
+      }
+      histories.set(roomId, history);
+    },
+    getMessages(roomId, { before = Infinity, limit }) {
+      const older = (histories.get(roomId) || []).filter(message => message.seq < before);
+      return {
+        messages: older.slice(-limit),
+        hasMore: older.length > limit
+      };
+    },
+    // Nothing to persist
+    save() {},
+    close() {}
+  };
+}
@@ -0,0 +1,126 @@
+// File-backed SQLite room store.
+//
+// Rooms are loaded into memory when the store opens and served from there.
+// Changed rooms are written back in batches, so frequent updates such as
+// playback heartbeats don't each hit the disk. Chat history has its own
+// table, written as messages come in and read back a page at a time.
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { toRoomSnapshot, restoreRoom } from '../room.js';
+import { createMemoryRoomStore } from './memoryStore.js';
+
+export function createSqliteRoomStore({ filename, flushInterval = 1000 }) {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rooms (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS messages (
+      room_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (room_id, seq)
+    )
+  `);
+
+  const upsertRoom = db.prepare(`
+    INSERT INTO rooms (id, data, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+  `);
+  const deleteRoom = db.prepare('DELETE FROM rooms WHERE id = ?');
+  // Messages we already have, e.g. shared again by another node, are skipped.
+  // Pages are read in `seq` order, so they may arrive in any order.
+  const insertMessage = db.prepare('INSERT OR IGNORE INTO messages (room_id, seq, data) VALUES (?, ?, ?)');
+  const selectMessages = db.prepare(`
+    SELECT data FROM messages WHERE room_id = ? AND seq < ? ORDER BY seq DESC LIMIT ?
+  `);
+  const deleteMessages = db.prepare('DELETE FROM messages WHERE room_id = ?');
+
+  // Rooms saved before chat history had its own table kept all of it in the
+  // room. Number those messages and move them over.
+  const importMessages = db.transaction((roomId, snapshot) => {
+    snapshot.messages = (snapshot.messages || []).map((message, index) => ({ ...message, seq: index + 1 }));
+    snapshot.messageSeq = snapshot.messages.length;
+    for (const message of snapshot.messages) {
+      insertMessage.run(roomId, message.seq, JSON.stringify(message));
+    }
+  });
+
+  const cache = createMemoryRoomStore();
+  for (const row of db.prepare('SELECT id, data FROM rooms').all()) {
+    try {
+      const snapshot = JSON.parse(row.data);
+      if (snapshot.messageSeq === undefined) {
+        importMessages(row.id, snapshot);
+      }
+      cache.set(row.id, restoreRoom(snapshot));
+    } catch (error) {
+      console.error(`Skipping unreadable room ${row.id}:`, error);
+    }
+  }
+
+  // Rooms changed since the last flush
+  const dirty = new Set();
+
+  const flush = db.transaction(() => {
+    for (const roomId of dirty) {
+      const room = cache.get(roomId);
+      if (room) {
+        upsertRoom.run(roomId, JSON.stringify(toRoomSnapshot(room)), room.lastActiveAt);
+      }
+    }
+    dirty.clear();
+  });
+
+  const timer = setInterval(() => {
+    if (dirty.size > 0) {
+      flush();
+    }
+  }, flushInterval);
+  timer.unref();
+
+  return {
+    ...cache,
+    get size() {
+      return cache.size;
+    },
+    set(roomId, room) {
+      cache.set(roomId, room);
+      dirty.add(roomId);
+    },
+    delete(roomId) {
+      dirty.delete(roomId);
+      deleteRoom.run(roomId);
+      deleteMessages.run(roomId);
+      return cache.delete(roomId);
+    },
+    appendMessage(roomId, message) {
+      insertMessage.run(roomId, message.seq, JSON.stringify(message));
+    },
+    getMessages(roomId, { before = Number.MAX_SAFE_INTEGER, limit }) {
+      // One more than asked for tells us whether there are more
+      const rows = selectMessages.all(roomId, before, limit + 1);
+      return {
+        messages: rows.slice(0, limit).reverse().map(row => JSON.parse(row.data)),
+        hasMore: rows.length > limit
+      };
+    },
+    save(roomId) {
+      if (cache.has(roomId)) {
+        dirty.add(roomId);
+      }
+    },
+    close() {
+      clearInterval(timer);
+      flush();
+      db.close();
+    }
+  };
+}
@@ -0,0 +1,359 @@
+/**
+ * Socket.IO protocol between the client and the sync server.
+ *
+ * Every event either side sends and the payload it carries. The client types
+ * its socket with `ServerToClientEvents`/`ClientToServerEvents`, the server
+ * documents its `io` instance with them, and `protocol.js` holds the runtime
+ * schemas the server checks incoming payloads against.
+ */
+
+export declare const PROTOCOL_VERSION: number;
+export declare const MIN_PROTOCOL_VERSION: number;
+
+// Optional features a server may have enabled and a client may support
+export type ProtocolFeature =
+  | 'host_controls'
+  | 'wait_for_all'
+  | 'ready_check'
+  | 'private_rooms'
+  | 'moderation'
+  | 'shared_subtitles';
+
+export declare const FEATURE_EVENTS: Record<ProtocolFeature, ClientEventName[]>;
+export declare const PROTOCOL_FEATURES: ProtocolFeature[];
+export declare function getEventFeature(event: string): ProtocolFeature | null;
+
+export declare const PLAYBACK_ACTION_TYPES: readonly ['play', 'pause', 'seek', 'rate', 'heartbeat'];
+export declare const BUFFERING_STATES: readonly ['waiting', 'canplay'];
+export declare const CONTROL_MODES: readonly ['host', 'everyone', 'cohosts'];
+
+// Typed playback actions understood by the sync server
+export type PlaybackActionType = (typeof PLAYBACK_ACTION_TYPES)[number];
+
+// Player buffering state reported to the server
+export type BufferingState = (typeof BUFFERING_STATES)[number];
+
+// Who may control playback: only the host, everyone, or the host plus co-hosts
+export type ControlMode = (typeof CONTROL_MODES)[number];
+
+// Events the server accepts from clients, and the payloads it checks
+export type ClientEventName = keyof ClientToServerEvents;
+
+export declare const CLIENT_EVENTS: ClientEventName[];
+
+// Returns why a client event's payload is invalid, or null if it's fine
+export declare function validateClientEvent(event: string, payload: unknown): string | null;
+
+// A user in the room as seen by the sync server
+export interface RoomParticipant {
+  userId: string;
+  username: string;
+}
+
+// Playback state as broadcast by the sync server
+export interface VideoState {
+  currentTime: number;
+  isPlaying: boolean;
+  playbackRate: number;
+  serverTime: number;
+  // Server time at which scheduled playback starts, if it hasn't yet
+  startsAt?: number;
+  waitForAll?: boolean;
+  bufferQuorum?: number;
+}
+
+// Playback action as broadcast by the server, stamped with its origin,
+// a per-room sequence number and the server time it was applied at.
+// Actions the server takes on its own have a null origin userId and a reason.
+export interface PlaybackAction extends VideoState {
+  type: PlaybackActionType;
+  seq: number;
+  origin: {
+    userId: string | null;
+    username: string;
+  };
+  reason?: 'buffering' | 'ready_check';
+}
+
+// "Wait for everyone" settings and who the room is waiting for
+export interface BufferingStatus {
+  waitForAll: boolean;
+  bufferQuorum: number;
+  waiting: RoomParticipant[];
+  paused: boolean;
+}
+
+// A participant in a ready check and whether they've confirmed
+export interface ReadyCheckParticipant extends RoomParticipant {
+  ready: boolean;
+}
+
+// Ready check started by the host. `startsAt` is set once everyone is ready:
+// the server time playback starts at after the countdown.
+export interface ReadyCheckState {
+  id: string;
+  startedBy: string;
+  startsAt?: number;
+  participants: ReadyCheckParticipant[];
+}
+
+// Host, control permissions, access and moderation settings of the room
+export interface RoomControlState {
+  ownerId: string | null;
+  controlMode: ControlMode;
+  cohosts: string[];
+  users: RoomParticipant[];
+  isPrivate?: boolean;
+  hasPassword?: boolean;
+  // Whether new users are kept out, who may not chat and who may not come back
+  locked?: boolean;
+  muted?: string[];
+  banned?: RoomParticipant[];
+}
+
+// Subtitle timing shared by the room: seconds to delay everyone's subtitles
+// by, or null while each viewer sets their own. Changing the movie clears it,
+// with a null origin userId.
+export interface SubtitleOffsetUpdate {
+  offset: number | null;
+  origin: {
+    userId: string | null;
+    username: string;
+  };
+}
+
+// A chat message, or a join or leave notice from 'System'. Timestamps are
+// serialized as ISO strings.
+export interface ChatMessagePayload {
+  id: string;
+  user: string;
+  // Sender's user ID; null for system messages and older history
+  userId?: string | null;
+  text: string;
+  timestamp: string;
+  // Position in the room's chat history, counting from 1. Join and leave
+  // notices that aren't kept in the history have none.
+  seq?: number;
+  // The room's movie and playback position, in seconds, when it was sent.
+  // Only set on messages from users while a movie was chosen.
+  movieId?: string;
+  position?: number;
+}
+
+// The room as sent to a user who joins (or resumes their session in) it
+export interface RoomUsersPayload {
+  // The user's ID in the room, and the token that lets them resume their seat
+  userId: string;
+  sessionToken: string;
+  users: RoomParticipant[];
+  videoState: VideoState;
+  playbackSeq: number;
+  currentMovie: string | null;
+  buffering: BufferingStatus;
+  readyCheck: ReadyCheckState | null;
+  // The room's latest chat messages, and whether there are older ones
+  messages: ChatMessagePayload[];
+  hasMoreMessages?: boolean;
+  // Subtitle timing shared by the room, if any
+  subtitleOffset?: number | null;
+  resumed?: boolean;
+}
+
+// Another movie was chosen for the room
+export interface MovieSelection {
+  movieId: string;
+  origin: RoomParticipant;
+}
+
+// Why the server didn't let a user into a room
+export interface JoinDenied {
+  roomId: string;
+  error: string;
+  passwordRequired: boolean;
+}
+
+// Why the host removed a user from the room
+export interface RemovedFromRoom {
+  roomId: string;
+  reason: 'kicked' | 'banned';
+}
+
+// An action the server refused, and why
+export interface RejectedAction {
+  action: string;
+  error: string;
+}
+
+// An event the server dropped because its payload didn't match the protocol
+export interface InvalidPayload {
+  event: string;
+  error: string;
+}
+
+// What a client sends in its Socket.IO handshake (`auth`)
+export interface ClientHandshake {
+  // Firebase ID token
+  token?: string;
+  protocolVersion: number;
+  features: ProtocolFeature[];
+}
+
+// The server's answer to the handshake: its protocol version and the
+// features both sides support
+export interface ServerInfo {
+  protocolVersion: number;
+  features: ProtocolFeature[];
+}
+
+// `data` of the connection error a client too old for the server gets
+export interface ReloadRequired {
+  reloadRequired: true;
+  protocolVersion: number;
+  minProtocolVersion: number;
+}
+
+// An event over the sender's rate limit, or sent while the server has muted
+// them for flooding the room
+export interface RateLimited {
+  action: string;
+  error: string;
+  // How long until the sender may try again, in ms
+  retryAfter: number;
+  // Set when the sender is muted for flooding: the server time the mute ends
+  mutedUntil?: number;
+}
+
+// Every request names the room it's for. Requests with a `requestId` are
+// handled once, however often they're resent.
+export interface RoomRequest {
+  roomId: string;
+  requestId?: string;
+}
+
+// What lets a user into a private room: its password or an invite token
+export interface RoomAccessCredentials {
+  password?: string;
+  inviteToken?: string;
+}
+
+export interface JoinRoomRequest extends RoomRequest, RoomAccessCredentials {
+  username: string;
+  // Stable client ID, used when auth is disabled
+  userId?: string | null;
+  // Token from an earlier `room_users`, to resume that seat
+  sessionToken?: string | null;
+}
+
+// Playback action sent to the server
+export interface PlaybackActionRequest {
+  type: PlaybackActionType;
+  currentTime: number;
+  playbackRate?: number;
+}
+
+// Untyped video state from older clients
+export interface VideoStateUpdate {
+  currentTime?: number;
+  isPlaying?: boolean;
+  playbackRate?: number;
+}
+
+export interface ChatMessageRequest {
+  text: string;
+  // Sender's name, which must match their name in the room
+  user?: string;
+}
+
+// Answer to a request: `success` once it's been handled, or why it wasn't
+export interface RequestResult {
+  success?: boolean;
+  error?: string;
+  // Set when the request went over the rate limit
+  retryAfter?: number;
+  mutedUntil?: number;
+}
+
+export interface JoinRoomResult extends RequestResult {
+  userId?: string;
+}
+
+export interface PlaybackActionResult extends RequestResult {
+  seq?: number;
+}
+
+export interface ChatMessageResult extends RequestResult {
+  messageId?: string;
+}
+
+// A page of older chat messages, oldest first, and whether there are more
+export interface MessagesPage {
+  messages?: ChatMessagePayload[];
+  hasMore?: boolean;
+  error?: string;
+}
+
+// Invite token for the room: null if it's public
+export interface InviteResult {
+  token?: string | null;
+  expiresAt?: number;
+  error?: string;
+}
+
+export interface TimeSyncResult {
+  clientTime: number;
+  serverTime: number;
+}
+
+type Ack<T> = (response: T) => void;
+
+export interface ClientToServerEvents {
+  // NTP-style clock sync, sent with the client's clock
+  time_sync: (clientTime: number, ack: Ack<TimeSyncResult>) => void;
+  join_room: (payload: JoinRoomRequest, ack?: Ack<JoinRoomResult>) => void;
+  leave_room: (payload: RoomRequest, ack?: Ack<RequestResult>) => void;
+  playback_action: (payload: RoomRequest & PlaybackActionRequest, ack?: Ack<PlaybackActionResult>) => void;
+  video_state_update: (payload: RoomRequest & VideoStateUpdate) => void;
+  select_movie: (payload: RoomRequest & { movieId: string }, ack?: Ack<RequestResult>) => void;
+  chat_message: (payload: RoomRequest & ChatMessageRequest, ack?: Ack<ChatMessageResult>) => void;
+  // Messages numbered below `before`, at most `limit` of them
+  load_messages: (payload: RoomRequest & { before: number; limit?: number }, ack: Ack<MessagesPage>) => void;
+  buffering_state: (payload: RoomRequest & { state: BufferingState }) => void;
+  set_wait_for_all: (payload: RoomRequest & { enabled: boolean; quorum?: number }) => void;
+  start_ready_check: (payload: RoomRequest) => void;
+  ready_check_response: (payload: RoomRequest & { ready: boolean }) => void;
+  cancel_ready_check: (payload: RoomRequest) => void;
+  set_control_mode: (payload: RoomRequest & { mode: ControlMode }) => void;
+  set_cohost: (payload: RoomRequest & { userId: string; enabled: boolean }) => void;
+  transfer_host: (payload: RoomRequest & { userId: string }) => void;
+  // An empty password clears it; leaving it out keeps the current one
+  set_room_privacy: (payload: RoomRequest & { isPrivate: boolean; password?: string }) => void;
+  create_invite: (payload: RoomRequest, ack: Ack<InviteResult>) => void;
+  kick_user: (payload: RoomRequest & { userId: string }) => void;
+  ban_user: (payload: RoomRequest & { userId: string; banned?: boolean }) => void;
+  mute_user: (payload: RoomRequest & { userId: string; muted: boolean }) => void;
+  lock_room: (payload: RoomRequest & { locked: boolean }) => void;
+  // Null hands the subtitle timing back to each viewer
+  set_subtitle_offset: (payload: RoomRequest & { offset: number | null }) => void;
+}
+
+export interface ServerToClientEvents {
+  // Sent once the connection is established
+  server_info: (info: ServerInfo) => void;
+  room_users: (payload: RoomUsersPayload) => void;
+  user_joined: (message: ChatMessagePayload) => void;
+  user_left: (message: ChatMessagePayload) => void;
+  chat_message: (message: ChatMessagePayload) => void;
+  playback_action: (action: PlaybackAction) => void;
+  playback_error: (payload: { error: string }) => void;
+  movie_selected: (selection: MovieSelection) => void;
+  buffering_status: (status: BufferingStatus) => void;
+  ready_check: (readyCheck: ReadyCheckState | null) => void;
+  subtitle_offset: (update: SubtitleOffsetUpdate) => void;
+  room_control: (control: RoomControlState) => void;
+  join_denied: (denied: JoinDenied) => void;
+  removed_from_room: (removed: RemovedFromRoom) => void;
+  control_denied: (rejected: RejectedAction) => void;
+  auth_error: (rejected: RejectedAction) => void;
+  invalid_payload: (invalid: InvalidPayload) => void;
+  rate_limited: (limited: RateLimited) => void;
+}
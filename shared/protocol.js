@@ -0,0 +1,184 @@
+// Socket.IO protocol between the client and the sync server.
+//
+// The types of every event live in protocol.d.ts. This module holds the
+// values both sides share and a schema for each event clients may send, which
+// the server checks incoming payloads against before handling them.
+
+// Version of this protocol. Bump it whenever a change would break clients
+// speaking the previous version, and raise MIN_PROTOCOL_VERSION to turn those
+// clients away.
+export const PROTOCOL_VERSION = 1;
+
+// Oldest client version the server still speaks. Clients from before the
+// handshake count as version 0, and speak version 1 apart from it.
+export const MIN_PROTOCOL_VERSION = 0;
+
+// Optional features, and the client events that belong to each. Clients send
+// the features they support when they connect; the server answers with those
+// it has enabled too, and turns away events of features it has disabled.
+export const FEATURE_EVENTS = {
+  host_controls: ['set_control_mode', 'set_cohost', 'transfer_host'],
+  wait_for_all: ['set_wait_for_all'],
+  ready_check: ['start_ready_check', 'ready_check_response', 'cancel_ready_check'],
+  private_rooms: ['set_room_privacy', 'create_invite'],
+  moderation: ['kick_user', 'ban_user', 'mute_user', 'lock_room'],
+  shared_subtitles: ['set_subtitle_offset']
+};
+
+export const PROTOCOL_FEATURES = Object.keys(FEATURE_EVENTS);
+
+// The feature a client event belongs to, if it's an optional one
+export function getEventFeature(event) {
+  return PROTOCOL_FEATURES.find(feature => FEATURE_EVENTS[feature].includes(event)) || null;
+}
+
+export const PLAYBACK_ACTION_TYPES = ['play', 'pause', 'seek', 'rate', 'heartbeat'];
+export const BUFFERING_STATES = ['waiting', 'canplay'];
+export const CONTROL_MODES = ['host', 'everyone', 'cohosts'];
+
+// Field schemas: whether the field may be left out or null, how to check its
+// value and what it must be, for the error when it isn't
+
+function string({ minLength = 1, maxLength = 128, optional = false, nullable = false } = {}) {
+  return {
+    optional,
+    nullable,
+    expected: `a string of ${minLength} to ${maxLength} characters`,
+    check: value => typeof value === 'string' && value.length >= minLength && value.length <= maxLength
+  };
+}
+
+function number({ min = -Infinity, max = Infinity, optional = false, nullable = false } = {}) {
+  return {
+    optional,
+    nullable,
+    expected: `a number between ${min} and ${max}`,
+    check: value => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+  };
+}
+
+function boolean({ optional = false } = {}) {
+  return {
+    optional,
+    nullable: false,
+    expected: 'true or false',
+    check: value => typeof value === 'boolean'
+  };
+}
+
+function oneOf(values, { optional = false } = {}) {
+  return {
+    optional,
+    nullable: false,
+    expected: `one of ${values.join(', ')}`,
+    check: value => values.includes(value)
+  };
+}
+
+// Every room request names its room, and may carry a request ID
+const roomRequest = {
+  roomId: string(),
+  requestId: string({ maxLength: 64, optional: true })
+};
+
+const targetUser = { ...roomRequest, userId: string() };
+const position = number({ min: 0 });
+const playbackRate = number({ min: 0.0625, max: 16, optional: true });
+
+// Payload schema of each event clients may send. Fields not listed are
+// ignored.
+const CLIENT_EVENT_SCHEMAS = {
+  time_sync: number({ min: 0 }),
+  join_room: {
+    ...roomRequest,
+    username: string({ maxLength: 50 }),
+    userId: string({ optional: true, nullable: true }),
+    sessionToken: string({ optional: true, nullable: true }),
+    password: string({ minLength: 0, optional: true }),
+    inviteToken: string({ maxLength: 512, optional: true })
+  },
+  leave_room: roomRequest,
+  playback_action: {
+    ...roomRequest,
+    type: oneOf(PLAYBACK_ACTION_TYPES),
+    currentTime: position,
+    playbackRate
+  },
+  video_state_update: {
+    ...roomRequest,
+    currentTime: { ...position, optional: true },
+    isPlaying: boolean({ optional: true }),
+    playbackRate
+  },
+  select_movie: { ...roomRequest, movieId: string({ maxLength: 256 }) },
+  chat_message: {
+    ...roomRequest,
+    text: string({ maxLength: 2000 }),
+    user: string({ maxLength: 50, optional: true })
+  },
+  load_messages: {
+    ...roomRequest,
+    before: number({ min: 1 }),
+    limit: number({ min: 1, max: 100, optional: true })
+  },
+  buffering_state: { ...roomRequest, state: oneOf(BUFFERING_STATES) },
+  set_wait_for_all: {
+    ...roomRequest,
+    enabled: boolean(),
+    quorum: number({ min: 0, max: 1, optional: true })
+  },
+  start_ready_check: roomRequest,
+  ready_check_response: { ...roomRequest, ready: boolean() },
+  cancel_ready_check: roomRequest,
+  set_control_mode: { ...roomRequest, mode: oneOf(CONTROL_MODES) },
+  set_cohost: { ...targetUser, enabled: boolean() },
+  transfer_host: targetUser,
+  set_room_privacy: {
+    ...roomRequest,
+    isPrivate: boolean(),
+    // An empty password clears it
+    password: string({ minLength: 0, optional: true })
+  },
+  create_invite: roomRequest,
+  kick_user: targetUser,
+  ban_user: { ...targetUser, banned: boolean({ optional: true }) },
+  mute_user: { ...targetUser, muted: boolean() },
+  lock_room: { ...roomRequest, locked: boolean() },
+  // Null hands the subtitle timing back to each viewer
+  set_subtitle_offset: { ...roomRequest, offset: number({ min: -600, max: 600, nullable: true }) }
+};
+
+export const CLIENT_EVENTS = Object.keys(CLIENT_EVENT_SCHEMAS);
+
+function checkField(name, field, value) {
+  if (value === undefined) {
+    return field.optional ? null : `${name} is required`;
+  }
+  if (value === null && field.nullable) {
+    return null;
+  }
+  return field.check(value) ? null : `${name} must be ${field.expected}`;
+}
+
+// Why a client event's payload is invalid, or null if it's fine
+export function validateClientEvent(event, payload) {
+  const schema = CLIENT_EVENT_SCHEMAS[event];
+  if (!schema) {
+    return `Unknown event: ${event}`;
+  }
+
+  // Events whose payload is a single value
+  if (typeof schema.check === 'function') {
+    return checkField('payload', schema, payload);
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'payload must be an object';
+  }
+
+  for (const [name, field] of Object.entries(schema)) {
+    const error = checkField(name, field, payload[name]);
+    if (error) return error;
+  }
+  return null;
+}
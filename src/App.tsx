@@ -1,29 +1,42 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BrowserRouter, Routes, Route, Link as RouterLink, useNavigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Link as RouterLink, useNavigate, useMatch, useSearchParams } from 'react-router-dom';
 import { VideoPlayer } from './components/VideoPlayer';
 import { Chat } from './components/Chat';
 import { VideoChat } from './components/VideoChat';
 import { MovieRoom } from './components/MovieRoom';
 import { AdminMovieManager } from './components/AdminMovieManager';
+import { SignInForm } from './components/SignInForm';
 import { HomePage } from './components/HomePage';
-import { Users, MessageSquare, Video, Link, Maximize2, Minimize2, X, Film, Settings } from 'lucide-react';
+import { Users, MessageSquare, Video, Link, Maximize2, Minimize2, X, Film, Settings, LogIn, LogOut, Copy, Check } from 'lucide-react';
 import { cn } from './lib/utils';
-import { SocketProvider, useSocket } from './lib/socketContext';
+import { SocketProvider, useSocket, RoomAccessCredentials } from './lib/socketContext';
+import { AuthProvider, useAuth } from './lib/authContext';
 import ErrorBoundary from './components/ErrorBoundary';
 import { LoadingAnimation } from './components/LoadingAnimation';
 
 // Temporary sample video URL
 const SAMPLE_VIDEO_URL = "https://storage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4";
 
+interface RoomJoinDialogProps {
+  onJoin: (roomId: string, username: string, password?: string) => void;
+  initialRoomId?: string;
+  // Why the last attempt to join was turned away, if it was
+  error?: string | null;
+  passwordRequired?: boolean;
+}
+
 // Room joining dialog component
-function RoomJoinDialog({ onJoin }: { onJoin: (roomId: string, username: string) => void }) {
-  const [roomId, setRoomId] = useState('');
-  const [username, setUsername] = useState('');
+function RoomJoinDialog({ onJoin, initialRoomId = '', error, passwordRequired }: RoomJoinDialogProps) {
+  const { user } = useAuth();
+  const { username: currentUsername } = useSocket();
+  const [roomId, setRoomId] = useState(initialRoomId);
+  const [username, setUsername] = useState(currentUsername || user?.displayName || '');
+  const [password, setPassword] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (roomId.trim() && username.trim()) {
-      onJoin(roomId, username);
+      onJoin(roomId, username, password || undefined);
     }
   };
 
@@ -32,6 +45,12 @@ function RoomJoinDialog({ onJoin }: { onJoin: (roomId: string, username: string)
       <div className="bg-gray-900 p-6 rounded-lg max-w-md w-full">
         <h2 className="text-xl font-bold mb-4">Join Movie Room</h2>
         
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 p-3 rounded-lg mb-4">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+        
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium mb-1">Your Name</label>
@@ -57,6 +76,20 @@ function RoomJoinDialog({ onJoin }: { onJoin: (roomId: string, username: string)
             />
           </div>
           
+          {passwordRequired && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Room Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="This room is private"
+                className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                autoFocus
+              />
+            </div>
+          )}
+          
           <button
             type="submit"
             className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded transition"
@@ -69,6 +102,88 @@ function RoomJoinDialog({ onJoin }: { onJoin: (roomId: string, username: string)
   );
 }
 
+// Copies a link others can join the room with
+function CopyInviteButton() {
+  const { createInviteLink } = useSocket();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const link = await createInviteLink();
+    if (!link) return;
+
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      window.prompt('Copy this invite link:', link);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1 rounded-full text-sm flex items-center gap-1.5 transition"
+      title="Copy invite link"
+    >
+      {copied ? <Check size={14} className="text-green-400" /> : <Copy size={14} />}
+      <span className="hidden sm:inline">{copied ? 'Copied!' : 'Copy invite link'}</span>
+    </button>
+  );
+}
+
+// Sign in dialog, for guests who want an account
+function SignInDialog({ onClose }: { onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-900 p-6 rounded-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Sign In</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+        <SignInForm onSignedIn={onClose} />
+      </div>
+    </div>
+  );
+}
+
+// Signed-in account, or a button to sign in for guests
+function AccountButton() {
+  const { user, signOut } = useAuth();
+  const [showSignIn, setShowSignIn] = useState(false);
+
+  if (user && !user.isAnonymous) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-300 hidden sm:inline">{user.displayName || user.email}</span>
+        <button
+          onClick={signOut}
+          className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full transition"
+          title="Sign out"
+        >
+          <LogOut size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setShowSignIn(true)}
+        className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded flex items-center gap-2 transition"
+      >
+        <LogIn size={16} />
+        <span>Sign In</span>
+      </button>
+      {showSignIn && <SignInDialog onClose={() => setShowSignIn(false)} />}
+    </>
+  );
+}
+
 // Floating Chat Window Component
 interface FloatingChatWindowProps {
   messages: Array<{
@@ -141,8 +256,19 @@ function AppContent() {
   const [chatWindowMode, setChatWindowMode] = useState<'integrated' | 'floating'>('integrated');
   const [isFloatingChatExpanded, setIsFloatingChatExpanded] = useState(false);
   const [showLoading, setShowLoading] = useState(true);
-  const { joinRoom, roomId, username, leaveRoom } = useSocket();
+  const { joinRoom, roomId, username, leaveRoom, joinDenied } = useSocket();
   const navigate = useNavigate();
+  // Room in the URL, and the invite token an invite link carries
+  const roomMatch = useMatch('/room/:roomId');
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+
+  // Ask again, e.g. for the password, when a private room turned us away
+  useEffect(() => {
+    if (joinDenied) {
+      setShowJoinDialog(true);
+    }
+  }, [joinDenied]);
 
   // Listen for custom event to open join dialog
   useEffect(() => {
@@ -169,10 +295,16 @@ function AppContent() {
     ]);
   };
 
-  const handleJoinRoom = (newRoomId: string, newUsername: string) => {
-    joinRoom(newRoomId, newUsername);
+  const handleJoinRoom = (newRoomId: string, newUsername: string, password?: string) => {
+    const access: RoomAccessCredentials = { password };
+    // An invite link only lets us into the room it's for
+    if (inviteToken && newRoomId === roomMatch?.params.roomId) {
+      access.inviteToken = inviteToken;
+    }
+    
+    joinRoom(newRoomId, newUsername, access);
     setShowJoinDialog(false);
-    navigate(`/room/${newRoomId}`);
+    navigate(`/room/${newRoomId}${access.inviteToken ? `?invite=${encodeURIComponent(access.inviteToken)}` : ''}`);
   };
 
   const toggleVideoChatSize = () => {
@@ -203,6 +335,8 @@ function AppContent() {
                     <span className="font-medium">{roomId}</span>
                   </div>
                   
+                  <CopyInviteButton />
+                  
                   <button
                     onClick={() => {
                       leaveRoom();
@@ -229,6 +363,7 @@ function AppContent() {
                     <Settings size={16} />
                     <span>Admin</span>
                   </RouterLink>
+                  <AccountButton />
                 </>
               )}
             </div>
@@ -252,8 +387,6 @@ function AppContent() {
                 {username ? (
                   <MovieRoom 
                     roomId={roomId || ''} 
-                    userId={username} 
-                    username={username} 
                   />
                 ) : (
                   <div className="text-center py-8">
@@ -275,7 +408,14 @@ function AppContent() {
           </Routes>
         </div>
         
-        {showJoinDialog && <RoomJoinDialog onJoin={handleJoinRoom} />}
+        {showJoinDialog && (
+          <RoomJoinDialog
+            onJoin={handleJoinRoom}
+            initialRoomId={joinDenied?.roomId || roomMatch?.params.roomId || ''}
+            error={joinDenied?.error}
+            passwordRequired={joinDenied?.passwordRequired}
+          />
+        )}
         
         {/* Floating chat window when in floating mode */}
         {chatWindowMode === 'floating' && (
@@ -292,14 +432,16 @@ function AppContent() {
   );
 }
 
-// Root App component with SocketProvider and Router
+// Root App component with AuthProvider, SocketProvider and Router
 function App() {
   return (
     <BrowserRouter>
       <ErrorBoundary>
-        <SocketProvider>
-          <AppContent />
-        </SocketProvider>
+        <AuthProvider>
+          <SocketProvider>
+            <AppContent />
+          </SocketProvider>
+        </AuthProvider>
       </ErrorBoundary>
     </BrowserRouter>
   );
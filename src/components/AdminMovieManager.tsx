@@ -3,6 +3,10 @@ import { db } from '../lib/firebase';
 import { collection, addDoc, getDocs, deleteDoc, doc, serverTimestamp, query, orderBy } from 'firebase/firestore';
 import { ArchiveUploader } from './ArchiveUploader';
 import { getArchiveThumbnailUrl } from '../lib/archiveProxy';
+import { useAuth } from '../lib/authContext';
+import { SignInForm } from './SignInForm';
+import { SubtitleUploader } from './SubtitleUploader';
+import { MAX_MOVIE_DOCUMENT_SIZE, SubtitleTrack, getFirestoreSize } from '../lib/subtitles';
 
 interface MovieFormData {
   title: string;
@@ -13,6 +17,8 @@ interface MovieFormData {
   year: number;
   duration: string;
   externalUrl?: string;
+  streamUrl?: string;
+  subtitles: SubtitleTrack[];
 }
 
 interface Movie {
@@ -25,6 +31,8 @@ interface Movie {
   year: number;
   duration: string;
   externalUrl?: string;
+  streamUrl?: string;
+  subtitles?: SubtitleTrack[];
   addedOn: any;
 }
 
@@ -34,9 +42,10 @@ export function AdminMovieManager() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [showThumbnailPreview, setShowThumbnailPreview] = useState(false);
-  const [authenticated, setAuthenticated] = useState(false);
-  const [password, setPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
+  // Admins are signed-in users with the `admin` custom claim; Firestore rules
+  // enforce the same on the server
+  const { user, isAdmin, loading: authLoading, signOut, refreshClaims } = useAuth();
+  const authenticated = !!user && !user.isAnonymous;
   
   const [formData, setFormData] = useState<MovieFormData>({
     title: '',
@@ -46,7 +55,9 @@ export function AdminMovieManager() {
     genre: '',
     year: new Date().getFullYear(),
     duration: '',
-    externalUrl: ''
+    externalUrl: '',
+    streamUrl: '',
+    subtitles: []
   });
 
   // Fetch existing movies
@@ -73,10 +84,10 @@ export function AdminMovieManager() {
 
   // Load movies on mount
   useEffect(() => {
-    if (authenticated) {
+    if (isAdmin) {
       fetchMovies();
     }
-  }, [authenticated]);
+  }, [isAdmin]);
 
   // Handle form input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -106,8 +117,12 @@ export function AdminMovieManager() {
     setSuccess(null);
     
     // Validate form
-    if (!formData.title || !formData.archiveId) {
-      setError('Title and Archive.org ID are required');
+    if (!formData.title || (!formData.archiveId && !formData.streamUrl)) {
+      setError('Title and an Archive.org ID or stream URL are required');
+      return;
+    }
+    if (getFirestoreSize(formData) > MAX_MOVIE_DOCUMENT_SIZE) {
+      setError('This movie is too large to store. Remove a subtitle track or shorten the description.');
       return;
     }
     
@@ -129,7 +144,9 @@ export function AdminMovieManager() {
         genre: '',
         year: new Date().getFullYear(),
         duration: '',
-        externalUrl: ''
+        externalUrl: '',
+        streamUrl: '',
+        subtitles: []
       });
       
       setSuccess('Movie added successfully!');
@@ -161,71 +178,65 @@ export function AdminMovieManager() {
     }
   };
 
-  // Handle authentication
-  const handleAuthentication = (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    
-    // Simulate a brief delay for authentication
-    setTimeout(() => {
-      if (password === 'admin123') {
-        setAuthenticated(true);
-        setError(null);
-      } else {
-        setError('Invalid password');
-      }
-      setLoading(false);
-    }, 500);
+  // Check again for the admin claim, e.g. right after it was granted
+  const handleRefreshAccess = async () => {
+    setError(null);
+    try {
+      await refreshClaims();
+    } catch (err) {
+      console.error('Error refreshing admin access:', err);
+      setError('Failed to check admin access');
+    }
   };
 
-  // Toggle password visibility
-  const togglePasswordVisibility = () => {
-    setShowPassword(!showPassword);
-  };
+  if (authLoading) {
+    return (
+      <div className="p-4 text-center text-gray-400 mt-20">Loading...</div>
+    );
+  }
 
-  // If not authenticated, show login form
+  // If not signed in, show login form
   if (!authenticated) {
     return (
       <div className="admin-login p-4 max-w-md mx-auto mt-20">
         <div className="bg-gray-900 p-6 rounded-lg shadow-lg">
           <h1 className="text-2xl font-bold mb-6 text-center">Admin Login</h1>
+          <SignInForm />
+        </div>
+      </div>
+    );
+  }
+
+  // Signed in, but not an admin
+  if (!isAdmin) {
+    return (
+      <div className="admin-login p-4 max-w-md mx-auto mt-20">
+        <div className="bg-gray-900 p-6 rounded-lg shadow-lg text-center space-y-4">
+          <h1 className="text-2xl font-bold">Admin Access Required</h1>
           
           {error && (
-            <div className="bg-red-500/20 border border-red-500 p-4 rounded-lg mb-4">
+            <div className="bg-red-500/20 border border-red-500 p-4 rounded-lg">
               <p className="text-red-400">{error}</p>
             </div>
           )}
           
-          <form onSubmit={handleAuthentication} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-1">Password</label>
-              <div className="relative">
-                <input
-                  type={showPassword ? "text" : "password"}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="Enter admin password"
-                  required
-                />
-                <button 
-                  type="button" 
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm text-gray-400 hover:text-white"
-                  onClick={togglePasswordVisibility}
-                >
-                  {showPassword ? "Hide" : "Show"}
-                </button>
-              </div>
-              <p className="text-xs text-gray-500 mt-1">Hint: admin123</p>
-            </div>
+          <p className="text-gray-300">
+            {user.email || user.displayName} doesn't have access to the movie library manager.
+          </p>
+          <div className="flex gap-2 justify-center">
+            <button
+              onClick={handleRefreshAccess}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm"
+            >
+              Check again
+            </button>
             <button
-              type="submit"
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded transition duration-200"
-              disabled={loading}
+              onClick={signOut}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm"
             >
-              {loading ? 'Loading...' : 'Login'}
+              Logout
             </button>
-          </form>
+          </div>
         </div>
       </div>
     );
@@ -236,7 +247,7 @@ export function AdminMovieManager() {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Movie Library Manager</h1>
         <button
-          onClick={() => setAuthenticated(false)}
+          onClick={signOut}
           className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded text-sm"
         >
           Logout
@@ -305,7 +316,7 @@ export function AdminMovieManager() {
             </div>
             
             <div>
-              <label className="block text-sm font-medium mb-1">Archive.org ID*</label>
+              <label className="block text-sm font-medium mb-1">Archive.org ID</label>
               <input
                 type="text"
                 name="archiveId"
@@ -313,7 +324,6 @@ export function AdminMovieManager() {
                 onChange={handleInputChange}
                 placeholder="e.g., example_video_2023"
                 className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required
               />
               <p className="text-sm text-gray-500 mt-1">
                 Enter an Archive.org item identifier or the full URL to the item.
@@ -383,6 +393,22 @@ export function AdminMovieManager() {
               />
             </div>
             
+            {/* Adaptive stream (HLS or DASH) */}
+            <div>
+              <label className="block text-sm font-medium mb-1">Stream URL (HLS/DASH)</label>
+              <input
+                type="text"
+                name="streamUrl"
+                value={formData.streamUrl || ''}
+                onChange={handleInputChange}
+                placeholder="https://example.com/movie/master.m3u8"
+                className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Optional. An .m3u8 or .mpd manifest, played with adaptive bitrate instead of the Archive.org item.
+              </p>
+            </div>
+            
             {/* External URL (AnimeiL-TV) */}
             <div className="mb-4">
               <label className="block text-sm font-medium mb-1">
@@ -402,6 +428,13 @@ export function AdminMovieManager() {
             </div>
           </div>
           
+          <SubtitleUploader
+            tracks={formData.subtitles}
+            documentSize={getFirestoreSize({ ...formData, subtitles: [] })}
+            onChange={(subtitles) => setFormData(prev => ({ ...prev, subtitles }))}
+            onError={(errorMsg) => setError(errorMsg)}
+          />
+          
           <div>
             <label className="block text-sm font-medium mb-1">Description</label>
             <textarea
@@ -443,7 +476,9 @@ export function AdminMovieManager() {
                 <div className="p-3">
                   <h3 className="font-medium truncate">{movie.title}</h3>
                   <div className="flex justify-between items-center mt-2">
-                    <span className="text-sm text-gray-400">ID: {movie.archiveId}</span>
+                    <span className="text-sm text-gray-400 truncate">
+                      {movie.streamUrl ? 'Stream' : `ID: ${movie.archiveId}`}
+                    </span>
                     <button
                       onClick={() => handleDeleteMovie(movie.id)}
                       className="text-red-500 hover:text-red-400 text-sm"
@@ -1,12 +1,89 @@
-import React from 'react';
-import { getArchiveEmbedUrl } from '../lib/archiveProxy';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArchiveMediaFile, getArchiveEmbedUrl, getArchiveMediaFiles } from '../lib/archiveProxy';
+import { PlaybackAdapter, PlaybackAdapterCallback, useEmbedAdapter, useVideoAdapterRef } from '../lib/playback';
 
 interface ArchivePlayerProps {
   archiveId: string;
   className?: string;
+  // Receives the player's playback adapter, for room sync. Items we can only
+  // show in Archive.org's embed page can't be controlled, so they aren't synced.
+  onAdapter?: PlaybackAdapterCallback;
 }
 
-export function ArchivePlayer({ archiveId, className = '' }: ArchivePlayerProps) {
+// Files this browser can play, one per quality
+const getPlayableFiles = (files: ArchiveMediaFile[]) => {
+  const video = document.createElement('video');
+  const labels = new Set<string>();
+  return files.filter(file => {
+    if (labels.has(file.label) || !video.canPlayType(file.mimeType)) return false;
+    labels.add(file.label);
+    return true;
+  });
+};
+
+export function ArchivePlayer({ archiveId, className = '', onAdapter }: ArchivePlayerProps) {
+  // Video files we can play ourselves, or null until they're known
+  const [files, setFiles] = useState<ArchiveMediaFile[] | null>(null);
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null);
+  // Where to pick up again once a newly selected quality has loaded
+  const resumeRef = useRef<{ position: number; playing: boolean } | null>(null);
+  const adapterRef = useRef<PlaybackAdapter | null>(null);
+
+  const handleAdapter = useCallback((adapter: PlaybackAdapter | null) => {
+    adapterRef.current = adapter;
+    onAdapter?.(adapter);
+  }, [onAdapter]);
+  const videoRef = useVideoAdapterRef(handleAdapter);
+
+  // Without files we can play, fall back to Archive.org's own player
+  const showEmbed = files !== null && files.length === 0;
+  useEmbedAdapter(onAdapter, showEmbed);
+
+  useEffect(() => {
+    if (!archiveId) return;
+
+    let cancelled = false;
+    setFiles(null);
+    getArchiveMediaFiles(archiveId)
+      .then(getPlayableFiles)
+      .catch(error => {
+        console.error('Error loading Archive.org media files:', error);
+        return [];
+      })
+      .then(playable => {
+        if (cancelled) return;
+        setFiles(playable);
+        setSelectedUrl(playable[0]?.url ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveId]);
+
+  // Switch quality without the room noticing: hold playback through the
+  // adapter, so the pause isn't reported, and resume once the file loads
+  const selectQuality = (url: string) => {
+    const adapter = adapterRef.current;
+    if (adapter) {
+      resumeRef.current = { position: adapter.getPosition(), playing: !adapter.isPaused() };
+      adapter.pause();
+    }
+    setSelectedUrl(url);
+  };
+
+  const handleLoadedMetadata = () => {
+    const adapter = adapterRef.current;
+    const resume = resumeRef.current;
+    if (!adapter || !resume) return;
+
+    resumeRef.current = null;
+    adapter.seek(resume.position);
+    if (resume.playing) {
+      adapter.play().catch(e => console.error('Error playing video:', e));
+    }
+  };
+
   if (!archiveId) {
     return (
       <div className={`flex items-center justify-center bg-gray-900 rounded-lg p-8 ${className}`}>
@@ -34,19 +111,59 @@ export function ArchivePlayer({ archiveId, className = '' }: ArchivePlayerProps)
     );
   }
 
-  // Get the embed URL using our utility function
-  const embedUrl = getArchiveEmbedUrl(archiveId);
+  if (!files) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-900 rounded-lg p-8 ${className}`}>
+        <div className="w-10 h-10 rounded-full border-4 border-blue-600 border-t-transparent animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (showEmbed) {
+    // Get the embed URL using our utility function
+    const embedUrl = getArchiveEmbedUrl(archiveId);
+    
+    return (
+      <div className={`archive-player w-full ${className}`}>
+        <iframe 
+          src={embedUrl}
+          className="w-full h-full border-0 rounded-lg"
+          allowFullScreen
+          frameBorder="0"
+          scrolling="no"
+          title="Archive.org Video Player"
+        />
+      </div>
+    );
+  }
   
   return (
-    <div className={`archive-player w-full ${className}`}>
-      <iframe 
-        src={embedUrl}
-        className="w-full h-full border-0 rounded-lg"
-        allowFullScreen
-        frameBorder="0"
-        scrolling="no"
-        title="Archive.org Video Player"
+    <div className={`archive-player relative group w-full ${className}`}>
+      <video
+        ref={videoRef}
+        src={selectedUrl ?? undefined}
+        className="w-full h-full rounded-lg"
+        controls
+        playsInline
+        controlsList="nodownload"
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
       />
+      
+      {files.length > 1 && (
+        <select
+          value={selectedUrl ?? ''}
+          onChange={(e) => selectQuality(e.target.value)}
+          className="absolute top-3 right-3 bg-black/70 text-white text-sm rounded px-2 py-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          title="Quality"
+        >
+          {files.map(file => (
+            <option key={file.url} value={file.url}>
+              {file.label}
+            </option>
+          ))}
+        </select>
+      )}
     </div>
   );
 } 
\ No newline at end of file
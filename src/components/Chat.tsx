@@ -1,132 +1,96 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Send, Smile } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { Send, Smile, Clock } from 'lucide-react';
 import { useSocket } from '../lib/socketContext';
+import { cn, formatTime } from '../lib/utils';
 
 interface Message {
   id: string;
   user: string;
   text: string;
   timestamp: Date;
+  // The room's movie and playback position when it was sent
+  movieId?: string;
+  position?: number;
 }
 
+// How close to the top of the chat we load older messages, in px
+const LOAD_OLDER_THRESHOLD = 40;
+
 interface ChatProps {
-  messages: Message[];
-  onSendMessage: (text: string) => void;
+  // Shown, and sent to, when we're not in a room
+  messages?: Message[];
+  onSendMessage?: (text: string) => void;
 }
 
-export function Chat({ messages: initialMessages, onSendMessage }: ChatProps) {
+export function Chat({ messages: lobbyMessages = [], onSendMessage }: ChatProps) {
   const [newMessage, setNewMessage] = useState('');
-  const [messages, setMessages] = useState<Message[]>(initialMessages);
-  const { socket, sendChatMessage, roomId } = useSocket();
+  const {
+    sendChatMessage,
+    roomId,
+    messages: roomMessages,
+    hasMoreMessages,
+    loadingMessages,
+    loadOlderMessages,
+    rateLimited,
+    currentMovieId,
+    canControl,
+    seekRoom,
+  } = useSocket();
+  const listRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Height of the list before we asked for older messages, to keep our place
+  // once they're added above
+  const heightBeforeLoadRef = useRef<number | null>(null);
+  // In a room, the chat is the room's
+  const messages = roomId ? roomMessages : lobbyMessages;
+  const canLoadOlder = !!roomId && hasMoreMessages;
+  // Why our last message didn't go through, while we have to wait
+  const chatLimited = roomId && rateLimited?.action === 'chat_message' ? rateLimited : null;
 
-  // Scroll to bottom of messages
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
-
-  // Use initial messages
-  useEffect(() => {
-    setMessages(initialMessages);
-    // Scroll to bottom when messages change
-    scrollToBottom();
-  }, [initialMessages]);
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
 
-  // Auto-scroll when messages state changes
+  // Auto-scroll when a new message arrives
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
-  // Listen for chat messages from WebSocket
-  useEffect(() => {
-    if (!socket) return;
-
-    const handleChatMessage = (message: Message) => {
-      // Convert timestamp string to Date if needed
-      const timestamp = message.timestamp instanceof Date 
-        ? message.timestamp 
-        : new Date(message.timestamp);
-      
-      // Check if this message already exists to prevent duplicates
-      setMessages(prevMessages => {
-        // Check if we already have this message ID
-        if (prevMessages.some(m => m.id === message.id)) {
-          return prevMessages; // Don't add duplicate
-        }
-        
-        return [
-          ...prevMessages,
-          { ...message, timestamp }
-        ];
-      });
-    };
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId]);
 
-    const handleUserJoined = (message: Message) => {
-      const timestamp = message.timestamp instanceof Date 
-        ? message.timestamp 
-        : new Date(message.timestamp);
-        
-      // Check if this message already exists to prevent duplicates
-      setMessages(prevMessages => {
-        // Check if we already have this message ID
-        if (prevMessages.some(m => m.id === message.id)) {
-          return prevMessages; // Don't add duplicate
-        }
-        
-        return [
-          ...prevMessages,
-          { 
-            ...message, 
-            timestamp,
-            user: 'System',
-          }
-        ];
-      });
-    };
+  // Stay on the message we were reading when older ones are added above it
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (list && heightBeforeLoadRef.current !== null) {
+      list.scrollTop += list.scrollHeight - heightBeforeLoadRef.current;
+      heightBeforeLoadRef.current = null;
+    }
+  }, [firstMessageId]);
 
-    const handleUserLeft = (message: Message) => {
-      const timestamp = message.timestamp instanceof Date 
-        ? message.timestamp 
-        : new Date(message.timestamp);
-        
-      // Check if this message already exists to prevent duplicates
-      setMessages(prevMessages => {
-        // Check if we already have this message ID
-        if (prevMessages.some(m => m.id === message.id)) {
-          return prevMessages; // Don't add duplicate
-        }
-        
-        return [
-          ...prevMessages,
-          { 
-            ...message, 
-            timestamp,
-            user: 'System',
-          }
-        ];
-      });
-    };
+  const loadOlder = () => {
+    if (!canLoadOlder || loadingMessages) return;
+    heightBeforeLoadRef.current = listRef.current?.scrollHeight ?? null;
+    loadOlderMessages();
+  };
 
-    socket.on('chat_message', handleChatMessage);
-    socket.on('user_joined', handleUserJoined);
-    socket.on('user_left', handleUserLeft);
+  // Load older messages as we scroll up to the top
+  const handleScroll = () => {
+    if (listRef.current && listRef.current.scrollTop <= LOAD_OLDER_THRESHOLD) {
+      loadOlder();
+    }
+  };
 
-    return () => {
-      socket.off('chat_message');
-      socket.off('user_joined');
-      socket.off('user_left');
-    };
-  }, [socket]);
+  // Why a message's timestamp can't take the room to that moment, if it can't
+  const getSeekBlocker = (message: Message) => {
+    if (message.movieId !== currentMovieId) return 'Sent while another movie was playing';
+    if (!canControl) return "You can't control playback in this room";
+    return null;
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newMessage.trim()) {
-      // Use the socket to send message if in a room
       if (roomId) {
         sendChatMessage(newMessage);
       } else {
-        // Fallback to the prop callback if not in a room
-        onSendMessage(newMessage);
+        onSendMessage?.(newMessage);
       }
       setNewMessage('');
     }
@@ -134,7 +98,21 @@ export function Chat({ messages: initialMessages, onSendMessage }: ChatProps) {
 
   return (
     <div className="flex flex-col h-full">
-      <div className="flex-1 overflow-y-auto p-2 sm:p-4 space-y-3 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
+      <div
+        ref={listRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-2 sm:p-4 space-y-3 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent"
+      >
+        {canLoadOlder && (
+          <button
+            type="button"
+            onClick={loadOlder}
+            disabled={loadingMessages}
+            className="w-full text-xs text-gray-400 hover:text-blue-400 disabled:hover:text-gray-400 transition"
+          >
+            {loadingMessages ? 'Loading earlier messages...' : 'Load earlier messages'}
+          </button>
+        )}
         {messages.map((message) => (
           <div key={message.id} className="flex flex-col">
             <div className="flex flex-wrap items-center gap-1 sm:gap-2">
@@ -144,6 +122,21 @@ export function Chat({ messages: initialMessages, onSendMessage }: ChatProps) {
               <span className="text-xs text-gray-500">
                 {message.timestamp.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
               </span>
+              {roomId && message.movieId && message.position !== undefined && (
+                <button
+                  type="button"
+                  onClick={() => seekRoom(message.position!)}
+                  disabled={!!getSeekBlocker(message)}
+                  title={getSeekBlocker(message) || `Watch from ${formatTime(message.position)}`}
+                  className={cn(
+                    "flex items-center gap-1 text-xs px-1.5 py-0.5 rounded-full bg-gray-800 text-blue-400 transition",
+                    getSeekBlocker(message) ? "opacity-50 cursor-default" : "hover:bg-gray-700"
+                  )}
+                >
+                  <Clock size={10} />
+                  {formatTime(message.position)}
+                </button>
+              )}
             </div>
             <p className="text-white text-sm sm:text-base break-words">{message.text}</p>
           </div>
@@ -153,6 +146,9 @@ export function Chat({ messages: initialMessages, onSendMessage }: ChatProps) {
       </div>
 
       <form onSubmit={handleSubmit} className="p-2 sm:p-3 pt-2 pb-3 border-t border-gray-800">
+        {chatLimited && (
+          <p className="text-xs text-red-400 mb-2 px-2">{chatLimited.error}</p>
+        )}
         <div className="flex items-center gap-1 sm:gap-2 bg-gray-800 rounded-full p-1 pl-2 sm:pl-3 pr-1">
           <input
             type="text"
@@ -1,5 +1,6 @@
 import React from 'react';
 import { CLOUDINARY_CLOUD_NAME } from '../lib/cloudinary';
+import { PlaybackAdapterCallback, useVideoAdapterRef } from '../lib/playback';
 
 interface CloudinaryPlayerProps {
   publicId: string;
@@ -8,6 +9,8 @@ interface CloudinaryPlayerProps {
   controls?: boolean;
   muted?: boolean;
   loop?: boolean;
+  // Receives the player's playback adapter, for room sync
+  onAdapter?: PlaybackAdapterCallback;
 }
 
 export function CloudinaryPlayer({ 
@@ -16,10 +19,12 @@ export function CloudinaryPlayer({
   autoPlay = false, 
   controls = true, 
   muted = false,
-  loop = false 
+  loop = false,
+  onAdapter
 }: CloudinaryPlayerProps) {
   // Cloud name should come from environment variables or Cloudinary lib
   const cloudName = CLOUDINARY_CLOUD_NAME;
+  const videoRef = useVideoAdapterRef(onAdapter);
 
   if (!publicId) {
     return (
@@ -55,6 +60,7 @@ export function CloudinaryPlayer({
   return (
     <div className={`cloudinary-player w-full ${className}`}>
       <video 
+        ref={videoRef}
         src={videoUrl}
         className="w-full h-full rounded-lg"
         autoPlay={autoPlay}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+interface CountdownOverlayProps {
+  // Server time at which the countdown ends
+  startsAt: number;
+  getServerTime: () => number;
+  label?: string;
+}
+
+// Full-size 3-2-1 overlay counting down to a server-scheduled instant
+export function CountdownOverlay({ startsAt, getServerTime, label = 'Starting in' }: CountdownOverlayProps) {
+  const [remaining, setRemaining] = useState(() => startsAt - getServerTime());
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRemaining(startsAt - getServerTime());
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [startsAt, getServerTime]);
+
+  if (remaining <= 0) {
+    return null;
+  }
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-20 pointer-events-none">
+      <p className="text-gray-300 text-sm sm:text-base mb-2">{label}</p>
+      <span key={Math.ceil(remaining / 1000)} className="text-6xl sm:text-8xl font-bold text-white animate-pulse">
+        {Math.ceil(remaining / 1000)}
+      </span>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   extractAnimeiLTvMetadata,
   monitorAnimeiLTvPlayerEvents
 } from '../lib/animeilTvUtils';
+import { PlaybackAdapter, PlaybackAdapterCallback, createAnimeilTvAdapter, useEmbedAdapter } from '../lib/playback';
 import '../styles/ExternalPlayer.css';
 
 interface ExternalPlayerProps {
@@ -20,6 +21,9 @@ interface ExternalPlayerProps {
   onPlay?: () => void;
   onPause?: () => void;
   onTimeUpdate?: (currentTime: number) => void;
+  // Receives the player's playback adapter. AnimeiL-TV's player is synced once
+  // its page answers; other sites' players can't be controlled, so they aren't.
+  onAdapter?: PlaybackAdapterCallback;
 }
 
 export function ExternalPlayer({ 
@@ -27,7 +31,8 @@ export function ExternalPlayer({
   className = '',
   onPlay,
   onPause,
-  onTimeUpdate
+  onTimeUpdate,
+  onAdapter
 }: ExternalPlayerProps) {
   const [isError, setIsError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -38,9 +43,22 @@ export function ExternalPlayer({
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [isOptimized, setIsOptimized] = useState(false);
   const [viewportType, setViewportType] = useState<'desktop' | 'mobile' | 'tablet'>('desktop');
+  const [animeilAdapter, setAnimeilAdapter] = useState<PlaybackAdapter | null>(null);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Until AnimeiL-TV's player can be controlled, it's an embed like any other
+  useEmbedAdapter(onAdapter, !animeilAdapter);
+  
+  useEffect(() => {
+    if (!animeilAdapter) return;
+    
+    onAdapter?.(animeilAdapter);
+    return () => {
+      animeilAdapter.destroy();
+      onAdapter?.(null);
+    };
+  }, [animeilAdapter, onAdapter]);
   
   // When the URL changes, process it for embedding
   useEffect(() => {
@@ -53,6 +71,7 @@ export function ExternalPlayer({
     setIsLoading(true);
     setIsError(false);
     setIsOptimized(false);
+    setAnimeilAdapter(null);
     
     try {
       // Check if it's an AnimeiL-TV URL
@@ -112,6 +131,13 @@ export function ExternalPlayer({
           // Attempt to extract metadata
           const metadata = await extractAnimeiLTvMetadata(iframeRef.current);
           console.log('Extracted AnimeiLTV metadata:', metadata);
+          
+          // Take over the player for room sync, after autoplay so that isn't
+          // taken for the viewer pressing play
+          const adapter = await createAnimeilTvAdapter(iframeRef.current);
+          if (adapter) {
+            setAnimeilAdapter(adapter);
+          }
         } else {
           optimizeEmbeddedViewing(iframeRef.current);
         }
@@ -182,6 +208,7 @@ export function ExternalPlayer({
   const reloadIframe = () => {
     if (iframeRef.current) {
       setIsOptimized(false);
+      setAnimeilAdapter(null);
       iframeRef.current.src = embedUrl;
       setIsLoading(true);
     }
@@ -15,6 +15,8 @@ interface Movie {
   megaLink?: string;
   cloudinaryId?: string;
   externalUrl?: string;
+  // HLS or DASH manifest URL
+  streamUrl?: string;
   genre: string;
   year: number;
   duration: string;
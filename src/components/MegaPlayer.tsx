@@ -1,18 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { CLOUDINARY_CLOUD_NAME, isCloudinaryId } from '../lib/cloudinary';
+import { PlaybackAdapterCallback, useEmbedAdapter, useVideoAdapterRef } from '../lib/playback';
 
 interface MegaPlayerProps {
   megaLink: string;
   cloudinaryId?: string;
   className?: string;
+  // Receives the player's playback adapter, for room sync. Only the
+  // Cloudinary copy can be synced; Mega's own player can't be controlled.
+  onAdapter?: PlaybackAdapterCallback;
 }
 
-export function MegaPlayer({ megaLink, cloudinaryId, className = '' }: MegaPlayerProps) {
+export function MegaPlayer({ megaLink, cloudinaryId, className = '', onAdapter }: MegaPlayerProps) {
   const [parsedLink, setParsedLink] = useState<string | null>(null);
   const [isError, setIsError] = useState(false);
   const [iframeError, setIframeError] = useState(false);
   const [loading, setLoading] = useState(true);
   const [useCloudinary, setUseCloudinary] = useState(false);
+  const videoRef = useVideoAdapterRef(onAdapter);
+  useEmbedAdapter(onAdapter, !loading && !useCloudinary);
 
   useEffect(() => {
     // First check if we have a cloudinaryId to use
@@ -166,6 +172,7 @@ export function MegaPlayer({ megaLink, cloudinaryId, className = '' }: MegaPlaye
     return (
       <div className={`cloudinary-player w-full ${className}`}>
         <video
+          ref={videoRef}
           className="w-full h-full rounded-lg"
           controls
           playsInline
@@ -1,9 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { collection, getDocs, query, orderBy } from 'firebase/firestore';
 import { db } from '../lib/firebase';
-import { ArchivePlayer } from './ArchivePlayer';
-import { MegaPlayer } from './MegaPlayer';
-import { ExternalPlayer } from './ExternalPlayer';
+import { RoomPlayer } from './RoomPlayer';
+import type { SubtitleTrack } from '../lib/subtitles';
 
 interface Movie {
   id: string;
@@ -14,6 +13,9 @@ interface Movie {
   megaLink?: string;
   cloudinaryId?: string;
   externalUrl?: string;
+  // HLS or DASH manifest URL
+  streamUrl?: string;
+  subtitles?: SubtitleTrack[];
   genre: string;
   year: number;
   duration: string;
@@ -123,27 +125,7 @@ export function MovieLibrary({ roomId, onSelectMovie }: MovieLibraryProps) {
       {selectedMovie && (
         <div className="mb-8">
           <div className="rounded-lg overflow-hidden bg-gray-900">
-            {selectedMovie.externalUrl ? (
-              <ExternalPlayer 
-                externalUrl={selectedMovie.externalUrl} 
-                className="aspect-video w-full" 
-              />
-            ) : selectedMovie.megaLink ? (
-              <MegaPlayer 
-                megaLink={selectedMovie.megaLink} 
-                cloudinaryId={selectedMovie.cloudinaryId} 
-                className="aspect-video w-full" 
-              />
-            ) : selectedMovie.archiveId ? (
-              <ArchivePlayer 
-                archiveId={selectedMovie.archiveId || ''} 
-                className="aspect-video w-full" 
-              />
-            ) : (
-              <div className="flex items-center justify-center aspect-video w-full">
-                <p className="text-gray-400">No video source available</p>
-              </div>
-            )}
+            <RoomPlayer key={selectedMovie.id} movie={selectedMovie} sync={false} className="aspect-video w-full" />
           </div>
           
           <div className="mt-4">
@@ -1,12 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { db } from '../lib/firebase';
-import { doc, updateDoc, onSnapshot, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { VideoChat } from './VideoChat';
 import { MovieLibrary } from './MovieLibrary';
-import { MegaPlayer } from './MegaPlayer';
 import { Chat } from './Chat';
-import { ArchivePlayer } from './ArchivePlayer';
-import { ExternalPlayer } from './ExternalPlayer';
+import { RoomPlayer } from './RoomPlayer';
+import { RoomControlPanel } from './RoomControlPanel';
+import { ReadyCheckOverlay } from './ReadyCheckOverlay';
+import { useSocket } from '../lib/socketContext';
+import { getExpectedPosition } from '../lib/playbackClock';
+import type { SubtitleTrack } from '../lib/subtitles';
 
 interface Movie {
   id: string;
@@ -17,194 +20,102 @@ interface Movie {
   archiveId?: string;
   cloudinaryId?: string;
   externalUrl?: string;
+  // HLS or DASH manifest URL
+  streamUrl?: string;
+  subtitles?: SubtitleTrack[];
   genre: string;
   year: number;
   duration: string;
   addedOn: any;
 }
 
-interface RoomData {
-  id: string;
-  name: string;
-  currentMovie?: string;
-  playbackPosition?: number;
-  isPlaying?: boolean;
-  participants: string[];
-  createdAt: any;
-  lastUpdated: any;
-}
-
 interface MovieRoomProps {
   roomId: string;
-  userId: string;
-  username: string;
 }
 
-export function MovieRoom({ roomId, userId, username }: MovieRoomProps) {
-  const [room, setRoom] = useState<RoomData | null>(null);
+export function MovieRoom({ roomId }: MovieRoomProps) {
   const [currentMovie, setCurrentMovie] = useState<Movie | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [showBrowser, setShowBrowser] = useState(false);
-  const [messages, setMessages] = useState<any[]>([]);
   const [activeTab, setActiveTab] = useState('movie');
+  // Everything about the room comes from the room transport
+  const {
+    canControl,
+    selectMovie,
+    roomControl,
+    userId: memberId,
+    readyCheck,
+    startReadyCheck,
+    currentMovieId,
+    videoState,
+    sendPlaybackAction,
+    getServerTime,
+    serverFeatures
+  } = useSocket();
+  const isHost = !!roomControl && roomControl.ownerId === memberId;
+  const watchingCount = roomControl?.users.length ?? 0;
+  const isPlaying = !!videoState?.isPlaying;
 
-  // Join room on component mount
+  // Fetch the details of the room's movie from the library
   useEffect(() => {
-    const joinRoom = async () => {
-      try {
-        const roomRef = doc(db, 'rooms', roomId);
-        const roomDoc = await getDoc(roomRef);
+    if (!currentMovieId) {
+      setCurrentMovie(null);
+      return;
+    }
 
-        if (!roomDoc.exists()) {
-          // Create the room if it doesn't exist
-          await setDoc(roomRef, {
-            name: `Movie Room ${roomId}`,
-            participants: [userId],
-            createdAt: serverTimestamp(),
-            lastUpdated: serverTimestamp()
+    let cancelled = false;
+    const fetchMovie = async () => {
+      try {
+        const movieDoc = await getDoc(doc(db, 'movies', currentMovieId));
+        if (cancelled) return;
+        if (movieDoc.exists()) {
+          const movieData = movieDoc.data() as Omit<Movie, 'id'>;
+          setCurrentMovie({
+            id: movieDoc.id,
+            ...movieData,
+            // Ensure we have at least one of these video source fields
+            megaLink: movieData.megaLink || '',
+            archiveId: movieData.archiveId || '',
+            cloudinaryId: movieData.cloudinaryId || '',
           });
         } else {
-          // Update participants list
-          const roomData = roomDoc.data() as Omit<RoomData, 'id'>;
-          if (!roomData.participants.includes(userId)) {
-            await updateDoc(roomRef, {
-              participants: [...roomData.participants, userId],
-              lastUpdated: serverTimestamp()
-            });
-          }
+          console.error('Movie not found');
         }
-
-        // Subscribe to room updates
-        const unsubscribe = onSnapshot(roomRef, (snapshot) => {
-          if (snapshot.exists()) {
-            const data = snapshot.data() as Omit<RoomData, 'id'>;
-            setRoom({
-              id: snapshot.id,
-              ...data
-            });
-
-            // If room has a current movie, fetch its details
-            if (data.currentMovie) {
-              fetchMovie(data.currentMovie);
-            }
-          } else {
-            setError('Room not found');
-          }
-          setLoading(false);
-        });
-
-        return () => {
-          unsubscribe();
-          // Leave the room when component unmounts
-          leaveRoom();
-        };
       } catch (err) {
-        console.error('Error joining room:', err);
-        setError('Failed to join room');
-        setLoading(false);
+        console.error('Error fetching movie:', err);
       }
     };
 
-    joinRoom();
-  }, [roomId, userId]);
-
-  // Fetch movie details
-  const fetchMovie = async (movieId: string) => {
-    try {
-      const movieDoc = await getDoc(doc(db, 'movies', movieId));
-      if (movieDoc.exists()) {
-        const movieData = movieDoc.data() as Omit<Movie, 'id'>;
-        setCurrentMovie({
-          id: movieDoc.id,
-          ...movieData,
-          // Ensure we have at least one of these video source fields
-          megaLink: movieData.megaLink || '',
-          archiveId: movieData.archiveId || '',
-          cloudinaryId: movieData.cloudinaryId || '',
-        });
-      } else {
-        console.error('Movie not found');
-      }
-    } catch (err) {
-      console.error('Error fetching movie:', err);
-    }
-  };
-
-  // Leave room when component unmounts
-  const leaveRoom = async () => {
-    if (!roomId || !userId || !room) return;
-    
-    try {
-      // Remove user from participants list
-      const roomRef = doc(db, 'rooms', roomId);
-      const updatedParticipants = room.participants.filter(id => id !== userId);
-      
-      if (updatedParticipants.length === 0) {
-        // Delete the room if empty
-        // This is optional - you might want to keep rooms
-      } else {
-        await updateDoc(roomRef, {
-          participants: updatedParticipants,
-          lastUpdated: serverTimestamp()
-        });
-      }
-    } catch (err) {
-      console.error('Error leaving room:', err);
-    }
-  };
+    fetchMovie();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentMovieId]);
 
   // Handle movie selection
   const handleSelectMovie = async (movie: Movie) => {
-    if (!roomId) return;
+    if (!roomId || !canControl) return;
     
-    try {
-      const roomRef = doc(db, 'rooms', roomId);
-      await updateDoc(roomRef, {
-        currentMovie: movie.id,
-        playbackPosition: 0,
-        isPlaying: false,
-        lastUpdated: serverTimestamp()
-      });
-      
-      // Close the browser after selecting
-      setShowBrowser(false);
-    } catch (err) {
-      console.error('Error updating room movie:', err);
+    // The room decides whether we're allowed to change the movie
+    const allowed = await selectMovie(movie.id);
+    if (!allowed) {
+      console.warn('Movie change was rejected by the room');
+      return;
     }
-  };
-
-  // Toggle play/pause
-  const togglePlayback = async () => {
-    if (!roomId || !room) return;
     
-    try {
-      const roomRef = doc(db, 'rooms', roomId);
-      await updateDoc(roomRef, {
-        isPlaying: !(room.isPlaying || false),
-        lastUpdated: serverTimestamp()
-      });
-    } catch (err) {
-      console.error('Error toggling playback:', err);
-    }
+    // Close the browser after selecting
+    setShowBrowser(false);
   };
 
-  // Add chat message
-  const handleSendMessage = (text: string) => {
-    const newMessage = {
-      id: Date.now().toString(),
-      text,
-      sender: username,
-      userId,
-      timestamp: new Date()
-    };
-    
-    setMessages(prev => [...prev, newMessage]);
+  // Toggle play/pause
+  const togglePlayback = () => {
+    if (!canControl) return;
     
-    // Here you could also sync the message to Firestore if needed
+    const currentTime = videoState ? getExpectedPosition(videoState, getServerTime()) : 0;
+    sendPlaybackAction({ type: isPlaying ? 'pause' : 'play', currentTime });
   };
 
-  if (loading) {
+  // Wait until we're in the room
+  if (!memberId) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="w-12 h-12 rounded-full border-4 border-blue-600 border-t-transparent animate-spin"></div>
@@ -212,37 +123,24 @@ export function MovieRoom({ roomId, userId, username }: MovieRoomProps) {
     );
   }
 
-  if (error) {
-    return (
-      <div className="flex items-center justify-center h-screen">
-        <div className="bg-red-500/20 border border-red-500 p-6 rounded-lg text-center max-w-md">
-          <h2 className="text-xl font-bold text-red-400 mb-2">Error</h2>
-          <p className="text-white mb-4">{error}</p>
-          <button 
-            onClick={() => window.location.reload()}
-            className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded"
-          >
-            Try Again
-          </button>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="movie-room h-screen flex flex-col bg-gray-950">
       <header className="bg-gray-900 border-b border-gray-800 p-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
         <div>
-          <h1 className="text-xl font-bold">{room?.name || `Room: ${roomId}`}</h1>
+          <h1 className="text-xl font-bold">Room: {roomId}</h1>
           <p className="text-sm text-gray-400">
-            {room?.participants?.length || 0} {room?.participants?.length === 1 ? 'person' : 'people'} watching
+            {watchingCount} {watchingCount === 1 ? 'person' : 'people'} watching
+            {roomControl?.locked && ' · Room locked'}
           </p>
         </div>
         
         <div className="flex gap-2">
+          <RoomControlPanel />
           <button 
             onClick={() => setShowBrowser(true)}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 sm:px-4 sm:py-2 rounded-lg flex items-center text-sm sm:text-base"
+            disabled={!canControl}
+            title={canControl ? undefined : 'Only users with control can change the movie'}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400 text-white px-3 py-2 sm:px-4 sm:py-2 rounded-lg flex items-center text-sm sm:text-base"
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 sm:h-5 sm:w-5 mr-1 sm:mr-2" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
@@ -283,30 +181,11 @@ export function MovieRoom({ roomId, userId, username }: MovieRoomProps) {
               {currentMovie ? (
                 <div className="flex-grow flex flex-col min-h-0">
                   <div className="bg-gray-900 rounded-lg overflow-hidden mb-4 flex-grow flex flex-col">
-                    <div className="aspect-video w-full">
+                    <div className="aspect-video w-full relative">
                       <div className="flex-1 bg-black rounded-lg overflow-hidden">
-                        {currentMovie?.externalUrl ? (
-                          <ExternalPlayer 
-                            externalUrl={currentMovie.externalUrl} 
-                            className="w-full h-full"
-                          />
-                        ) : currentMovie?.megaLink ? (
-                          <MegaPlayer 
-                            megaLink={currentMovie.megaLink} 
-                            cloudinaryId={currentMovie.cloudinaryId} 
-                            className="w-full h-full"
-                          />
-                        ) : currentMovie?.archiveId ? (
-                          <ArchivePlayer 
-                            archiveId={currentMovie.archiveId} 
-                            className="w-full h-full" 
-                          />
-                        ) : (
-                          <div className="flex items-center justify-center h-full">
-                            <p className="text-gray-400">No video source available</p>
-                          </div>
-                        )}
+                        <RoomPlayer key={currentMovie.id} movie={currentMovie} className="w-full h-full" />
                       </div>
+                      <ReadyCheckOverlay />
                     </div>
                     
                     <div className="p-4 border-t border-gray-800">
@@ -320,20 +199,31 @@ export function MovieRoom({ roomId, userId, username }: MovieRoomProps) {
                           </div>
                         </div>
                         
-                        <button 
-                          onClick={togglePlayback}
-                          className="bg-blue-600 hover:bg-blue-700 text-white p-2 rounded-full"
-                        >
-                          {room?.isPlaying ? (
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                            </svg>
-                          ) : (
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-                            </svg>
+                        <div className="flex items-center gap-2">
+                          {isHost && !readyCheck && serverFeatures.includes('ready_check') && (
+                            <button
+                              onClick={startReadyCheck}
+                              className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-2 rounded-lg text-sm"
+                            >
+                              Ready check
+                            </button>
                           )}
-                        </button>
+                          <button 
+                            onClick={togglePlayback}
+                            disabled={!canControl}
+                            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 text-white p-2 rounded-full"
+                          >
+                            {isPlaying ? (
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                              </svg>
+                            ) : (
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                              </svg>
+                            )}
+                          </button>
+                        </div>
                       </div>
                       
                       {currentMovie.description && (
@@ -354,7 +244,8 @@ export function MovieRoom({ roomId, userId, username }: MovieRoomProps) {
                     </p>
                     <button 
                       onClick={() => setShowBrowser(true)}
-                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm"
+                      disabled={!canControl}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400 text-white px-4 py-2 rounded-lg text-sm"
                     >
                       Browse Movies
                     </button>
@@ -371,7 +262,7 @@ export function MovieRoom({ roomId, userId, username }: MovieRoomProps) {
                 <h2 className="font-medium">Chat</h2>
               </div>
               <div className="flex-grow overflow-hidden">
-                <Chat messages={messages} onSendMessage={handleSendMessage} />
+                <Chat />
               </div>
             </div>
           )}
@@ -0,0 +1,71 @@
+import { Check, Clock } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useSocket } from '../lib/socketContext';
+import { CountdownOverlay } from './CountdownOverlay';
+
+// Shown over the player while a ready check runs: who has confirmed, and the
+// countdown once everyone has
+export function ReadyCheckOverlay() {
+  const { readyCheck, userId, roomControl, respondToReadyCheck, cancelReadyCheck, getServerTime } = useSocket();
+
+  if (!readyCheck) {
+    return null;
+  }
+
+  if (readyCheck.startsAt) {
+    return <CountdownOverlay startsAt={readyCheck.startsAt} getServerTime={getServerTime} label="Everyone is ready! Starting in" />;
+  }
+
+  const isHost = userId === roomControl?.ownerId;
+  const me = readyCheck.participants.find(participant => participant.userId === userId);
+  const readyCount = readyCheck.participants.filter(participant => participant.ready).length;
+
+  return (
+    <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-20 p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-lg shadow-xl w-full max-w-sm p-4">
+        <h3 className="text-lg font-bold mb-1">Ready check</h3>
+        <p className="text-sm text-gray-400 mb-3">
+          {readyCount} of {readyCheck.participants.length} ready
+        </p>
+
+        <ul className="space-y-1 max-h-48 overflow-y-auto mb-4">
+          {readyCheck.participants.map(participant => (
+            <li key={participant.userId} className="flex items-center justify-between bg-gray-800 rounded px-2 py-1.5 text-sm">
+              <span className="truncate">
+                {participant.username}
+                {participant.userId === userId && <span className="text-xs text-gray-500 ml-1">(you)</span>}
+              </span>
+              {participant.ready ? (
+                <Check size={16} className="text-green-400 shrink-0" />
+              ) : (
+                <Clock size={16} className="text-gray-500 shrink-0" />
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2">
+          {me && (
+            <button
+              onClick={() => respondToReadyCheck(!me.ready)}
+              className={cn(
+                'flex-1 px-4 py-2 rounded-lg text-sm text-white',
+                me.ready ? 'bg-gray-700 hover:bg-gray-600' : 'bg-green-600 hover:bg-green-700'
+              )}
+            >
+              {me.ready ? 'Not ready' : "I'm ready"}
+            </button>
+          )}
+          {isHost && (
+            <button
+              onClick={cancelReadyCheck}
+              className="px-4 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
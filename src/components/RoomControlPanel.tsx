@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Crown, ShieldCheck, Users, ChevronDown, Lock, MicOff, Ban } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useSocket, ControlMode, ProtocolFeature } from '../lib/socketContext';
+
+const CONTROL_MODE_LABELS: Record<ControlMode, string> = {
+  host: 'Host only',
+  everyone: 'Everyone',
+  cohosts: 'Host + co-hosts'
+};
+
+// Share of the room that must be ready before playback resumes
+const BUFFER_QUORUM_OPTIONS = [
+  { value: 1, label: 'Everyone' },
+  { value: 0.75, label: '75% of viewers' },
+  { value: 0.5, label: 'Half of viewers' }
+];
+
+export function RoomControlPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const {
+    roomControl,
+    userId,
+    canControl,
+    setControlMode,
+    setCohost,
+    transferHost,
+    bufferingStatus,
+    setWaitForAll,
+    setRoomPrivacy,
+    kickUser,
+    banUser,
+    muteUser,
+    lockRoom,
+    serverFeatures
+  } = useSocket();
+  const [password, setPassword] = useState('');
+
+  if (!roomControl) {
+    return null;
+  }
+
+  const isHost = userId === roomControl.ownerId;
+  // Settings the server doesn't have aren't offered
+  const hasFeature = (feature: ProtocolFeature) => serverFeatures.includes(feature);
+  const host = roomControl.users.find(user => user.userId === roomControl.ownerId);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-2 rounded-lg flex items-center gap-2 text-sm"
+      >
+        <Crown size={16} className="text-yellow-400" />
+        <span className="max-w-[8rem] truncate">{host ? host.username : 'No host'}</span>
+        <span className={cn('text-xs', canControl ? 'text-green-400' : 'text-gray-400')}>
+          {canControl ? 'You can control' : CONTROL_MODE_LABELS[roomControl.controlMode]}
+        </span>
+        {(roomControl.isPrivate || roomControl.locked) && <Lock size={14} className="text-gray-400" />}
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-900 border border-gray-800 rounded-lg shadow-xl z-40 p-3">
+          <div className="mb-3">
+            <label className="block text-xs font-medium text-gray-400 mb-1">Who can control playback</label>
+            {isHost && hasFeature('host_controls') ? (
+              <select
+                value={roomControl.controlMode}
+                onChange={(e) => setControlMode(e.target.value as ControlMode)}
+                className="w-full bg-gray-800 text-white rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(CONTROL_MODE_LABELS) as ControlMode[]).map(mode => (
+                  <option key={mode} value={mode}>{CONTROL_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm">{CONTROL_MODE_LABELS[roomControl.controlMode]}</p>
+            )}
+          </div>
+
+          {hasFeature('private_rooms') && (
+            <div className="mb-3">
+              <label className="flex items-center justify-between text-xs font-medium text-gray-400 mb-1">
+                <span>Private room (invite or password only)</span>
+                <input
+                  type="checkbox"
+                  checked={!!roomControl.isPrivate}
+                  disabled={!isHost}
+                  onChange={(e) => setRoomPrivacy(e.target.checked)}
+                  className="accent-blue-500"
+                />
+              </label>
+              {isHost && roomControl.isPrivate && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    setRoomPrivacy(true, password);
+                    setPassword('');
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={roomControl.hasPassword ? 'Change password' : 'Set a password (optional)'}
+                    className="flex-1 min-w-0 bg-gray-800 text-white rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {password ? (
+                    <button type="submit" className="text-xs text-blue-400 hover:text-blue-300">Save</button>
+                  ) : roomControl.hasPassword && (
+                    <button type="submit" className="text-xs text-red-400 hover:text-red-300">Remove</button>
+                  )}
+                </form>
+              )}
+            </div>
+          )}
+
+          {hasFeature('moderation') && (
+            <div className="mb-3">
+              <label className="flex items-center justify-between text-xs font-medium text-gray-400">
+                <span>Lock room to new joiners</span>
+                <input
+                  type="checkbox"
+                  checked={!!roomControl.locked}
+                  disabled={!isHost}
+                  onChange={(e) => lockRoom(e.target.checked)}
+                  className="accent-blue-500"
+                />
+              </label>
+            </div>
+          )}
+
+          {bufferingStatus && hasFeature('wait_for_all') && (
+            <div className="mb-3">
+              <label className="flex items-center justify-between text-xs font-medium text-gray-400 mb-1">
+                <span>Wait for everyone when buffering</span>
+                <input
+                  type="checkbox"
+                  checked={bufferingStatus.waitForAll}
+                  disabled={!canControl}
+                  onChange={(e) => setWaitForAll(e.target.checked, bufferingStatus.bufferQuorum)}
+                  className="accent-blue-500"
+                />
+              </label>
+              {bufferingStatus.waitForAll && (
+                <select
+                  value={bufferingStatus.bufferQuorum}
+                  disabled={!canControl}
+                  onChange={(e) => setWaitForAll(true, Number(e.target.value))}
+                  className="w-full bg-gray-800 text-white rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                >
+                  {BUFFER_QUORUM_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>Resume when {option.label.toLowerCase()} ready</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center text-xs font-medium text-gray-400 mb-1">
+            <Users size={12} className="mr-1" />
+            Participants ({roomControl.users.length})
+          </div>
+          <ul className="space-y-1 max-h-60 overflow-y-auto">
+            {roomControl.users.map(user => {
+              const isUserHost = user.userId === roomControl.ownerId;
+              const isCohost = roomControl.cohosts.includes(user.userId);
+              const isMuted = !!roomControl.muted?.includes(user.userId);
+
+              return (
+                <li key={user.userId} className="flex items-center justify-between bg-gray-800 rounded px-2 py-1.5 text-sm">
+                  <span className="flex items-center gap-1.5 truncate">
+                    {isUserHost && <Crown size={14} className="text-yellow-400 shrink-0" />}
+                    {isCohost && <ShieldCheck size={14} className="text-blue-400 shrink-0" />}
+                    {isMuted && <MicOff size={14} className="text-red-400 shrink-0" />}
+                    <span className="truncate">{user.username}</span>
+                    {user.userId === userId && <span className="text-xs text-gray-500">(you)</span>}
+                  </span>
+
+                  {isHost && !isUserHost && (
+                    <span className="flex items-center gap-2 shrink-0">
+                      {hasFeature('host_controls') && roomControl.controlMode === 'cohosts' && (
+                        <button
+                          onClick={() => setCohost(user.userId, !isCohost)}
+                          className="text-xs text-blue-400 hover:text-blue-300"
+                        >
+                          {isCohost ? 'Revoke' : 'Co-host'}
+                        </button>
+                      )}
+                      {hasFeature('host_controls') && (
+                        <button
+                          onClick={() => transferHost(user.userId)}
+                          className="text-xs text-yellow-400 hover:text-yellow-300"
+                        >
+                          Make host
+                        </button>
+                      )}
+                      {hasFeature('moderation') && (
+                        <>
+                          <button
+                            onClick={() => muteUser(user.userId, !isMuted)}
+                            className="text-xs text-gray-300 hover:text-white"
+                          >
+                            {isMuted ? 'Unmute' : 'Mute'}
+                          </button>
+                          <button
+                            onClick={() => kickUser(user.userId)}
+                            className="text-xs text-red-400 hover:text-red-300"
+                          >
+                            Kick
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (confirm(`Ban ${user.username} from this room?`)) {
+                                banUser(user.userId, true);
+                              }
+                            }}
+                            className="text-xs text-red-500 hover:text-red-400"
+                          >
+                            Ban
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {isHost && hasFeature('moderation') && !!roomControl.banned?.length && (
+            <>
+              <div className="flex items-center text-xs font-medium text-gray-400 mt-3 mb-1">
+                <Ban size={12} className="mr-1" />
+                Banned ({roomControl.banned.length})
+              </div>
+              <ul className="space-y-1 max-h-32 overflow-y-auto">
+                {roomControl.banned.map(user => (
+                  <li key={user.userId} className="flex items-center justify-between bg-gray-800 rounded px-2 py-1.5 text-sm">
+                    <span className="truncate text-gray-400">{user.username}</span>
+                    <button
+                      onClick={() => banUser(user.userId, false)}
+                      className="text-xs text-blue-400 hover:text-blue-300 shrink-0"
+                    >
+                      Unban
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
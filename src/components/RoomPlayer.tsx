@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { cn } from '../lib/utils';
+import { useSocket } from '../lib/socketContext';
+import { PlaybackAdapter, useRoomPlayback } from '../lib/playback';
+import type { SubtitleTrack } from '../lib/subtitles';
+import { ExternalPlayer } from './ExternalPlayer';
+import { MegaPlayer } from './MegaPlayer';
+import { ArchivePlayer } from './ArchivePlayer';
+import { CloudinaryPlayer } from './CloudinaryPlayer';
+import { StreamPlayer } from './StreamPlayer';
+import { CountdownOverlay } from './CountdownOverlay';
+import { Subtitles } from './Subtitles';
+
+// The video sources a movie can have, in the order they're preferred
+export interface RoomPlayerMovie {
+  // HLS or DASH manifest
+  streamUrl?: string;
+  externalUrl?: string;
+  megaLink?: string;
+  archiveId?: string;
+  cloudinaryId?: string;
+  subtitles?: SubtitleTrack[];
+}
+
+interface RoomPlayerProps {
+  movie: RoomPlayerMovie;
+  className?: string;
+  // Whether to keep playback in sync with the room, if there is one
+  sync?: boolean;
+}
+
+// Plays a movie from whichever source it has and keeps it in sync with the
+// room through the source's playback adapter
+export function RoomPlayer({ movie, className = '', sync = true }: RoomPlayerProps) {
+  const { roomId, getServerTime, bufferingStatus } = useSocket();
+  const [adapter, setAdapter] = useState<PlaybackAdapter | null>(null);
+  const { countdownUntil, activityNotice } = useRoomPlayback(adapter, sync);
+
+  const renderSource = () => {
+    if (movie.streamUrl) {
+      return <StreamPlayer src={movie.streamUrl} className="w-full h-full" onAdapter={setAdapter} />;
+    }
+    if (movie.externalUrl) {
+      return <ExternalPlayer externalUrl={movie.externalUrl} className="w-full h-full" onAdapter={setAdapter} />;
+    }
+    if (movie.megaLink) {
+      return (
+        <MegaPlayer
+          megaLink={movie.megaLink}
+          cloudinaryId={movie.cloudinaryId}
+          className="w-full h-full"
+          onAdapter={setAdapter}
+        />
+      );
+    }
+    if (movie.archiveId) {
+      return <ArchivePlayer archiveId={movie.archiveId} className="w-full h-full" onAdapter={setAdapter} />;
+    }
+    if (movie.cloudinaryId) {
+      return <CloudinaryPlayer publicId={movie.cloudinaryId} className="w-full h-full" onAdapter={setAdapter} />;
+    }
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-400">No video source available</p>
+      </div>
+    );
+  };
+
+  const synced = sync && !!roomId;
+
+  return (
+    <div className={cn('relative', className)}>
+      {renderSource()}
+
+      {/* Subtitles follow the player's position, which embeds don't report */}
+      {adapter?.capabilities.events && movie.subtitles && movie.subtitles.length > 0 && (
+        <Subtitles tracks={movie.subtitles} adapter={adapter} />
+      )}
+
+      {synced && countdownUntil && (
+        <CountdownOverlay startsAt={countdownUntil} getServerTime={getServerTime} />
+      )}
+
+      {synced && !countdownUntil && bufferingStatus?.paused && bufferingStatus.waiting.length > 0 && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="bg-black/70 text-white text-sm px-4 py-2 rounded-lg">
+            Waiting for {bufferingStatus.waiting.map(user => user.username).join(', ')}…
+          </div>
+        </div>
+      )}
+
+      {activityNotice && (
+        <div className="absolute top-4 left-4 bg-black/70 text-white text-sm px-3 py-1.5 rounded-full pointer-events-none">
+          {activityNotice}
+        </div>
+      )}
+
+      {synced && adapter && !adapter.capabilities.control && (
+        <div className="absolute top-4 right-4 bg-black/70 text-gray-300 text-xs px-3 py-1.5 rounded-full pointer-events-none">
+          Playback isn't synced for this source
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { useAuth } from '../lib/authContext';
+
+interface SignInFormProps {
+  onSignedIn?: () => void;
+}
+
+// Readable message for the Firebase Auth errors users are likely to hit
+const getAuthErrorMessage = (error: unknown): string => {
+  if (!(error instanceof FirebaseError)) {
+    return 'Sign in failed. Please try again.';
+  }
+
+  switch (error.code) {
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found':
+      return 'Wrong email or password';
+    case 'auth/email-already-in-use':
+      return 'An account with this email already exists. Sign in instead.';
+    case 'auth/weak-password':
+      return 'Password should be at least 6 characters';
+    case 'auth/invalid-email':
+      return 'Invalid email address';
+    case 'auth/popup-closed-by-user':
+      return 'Sign in was cancelled';
+    default:
+      return error.message;
+  }
+};
+
+export function SignInForm({ onSignedIn }: SignInFormProps) {
+  const { signInWithEmail, signUpWithEmail, signInWithGoogle } = useAuth();
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setLoading(true);
+    try {
+      await action();
+      onSignedIn?.();
+    } catch (err) {
+      console.error('Sign in failed:', err);
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => mode === 'signin'
+      ? signInWithEmail(email, password)
+      : signUpWithEmail(email, password, displayName.trim() || undefined));
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-500/20 border border-red-500 p-3 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'signup' && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              placeholder="How others see you"
+              className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Password</label>
+          <div className="relative">
+            <input
+              type={showPassword ? "text" : "password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full bg-gray-800 text-white rounded px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Enter your password"
+              required
+            />
+            <button
+              type="button"
+              className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm text-gray-400 hover:text-white"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? "Hide" : "Show"}
+            </button>
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded transition duration-200"
+          disabled={loading}
+        >
+          {loading ? 'Loading...' : mode === 'signin' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <div className="flex-1 border-t border-gray-700" />
+        or
+        <div className="flex-1 border-t border-gray-700" />
+      </div>
+
+      <button
+        type="button"
+        onClick={() => run(signInWithGoogle)}
+        className="w-full bg-white hover:bg-gray-200 text-gray-900 font-medium py-2 px-4 rounded transition duration-200"
+        disabled={loading}
+      >
+        Continue with Google
+      </button>
+
+      <p className="text-sm text-gray-400 text-center">
+        {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'signin' ? 'signup' : 'signin');
+            setError(null);
+          }}
+          className="text-blue-400 hover:underline"
+        >
+          {mode === 'signin' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { StreamController, StreamLevel, StreamType, attachStream } from '../lib/streaming';
+import { PlaybackAdapter, PlaybackAdapterCallback, PlaybackStats, createStreamAdapter } from '../lib/playback';
+
+// How often the stats panel refreshes while it's open
+const STATS_INTERVAL = 1000;
+
+interface StreamPlayerProps {
+  // HLS or DASH manifest URL
+  src: string;
+  // Kind of manifest, if the URL doesn't tell
+  type?: StreamType;
+  className?: string;
+  // Receives the player's playback adapter, for room sync
+  onAdapter?: PlaybackAdapterCallback;
+}
+
+const formatBitrate = (bitsPerSecond?: number) => {
+  if (!bitsPerSecond) return '–';
+  return bitsPerSecond >= 1000000
+    ? `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+// Plays an adaptive HLS or DASH stream, switching bitrate with the viewer's
+// bandwidth unless they pick a quality themselves
+export function StreamPlayer({ src, type, className = '', onAdapter }: StreamPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<StreamController | null>(null);
+  const onAdapterRef = useRef(onAdapter);
+  onAdapterRef.current = onAdapter;
+  const [levels, setLevels] = useState<StreamLevel[]>([]);
+  const [level, setLevel] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [stats, setStats] = useState<PlaybackStats | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let cancelled = false;
+    let adapter: PlaybackAdapter | null = null;
+    setError(null);
+    setLevels([]);
+    setLevel(-1);
+
+    attachStream(video, src, type)
+      .then(stream => {
+        if (cancelled) {
+          stream.destroy();
+          return;
+        }
+
+        streamRef.current = stream;
+        setLevels(stream.getLevels());
+        stream.on('change', () => setLevels(stream.getLevels()));
+        stream.on('error', streamError => setError(streamError.message));
+
+        adapter = createStreamAdapter(video, stream);
+        onAdapterRef.current?.(adapter);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading stream:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the stream');
+      });
+
+    return () => {
+      cancelled = true;
+      if (adapter) {
+        adapter.destroy();
+        onAdapterRef.current?.(null);
+      }
+      streamRef.current?.destroy();
+      streamRef.current = null;
+    };
+  }, [src, type]);
+
+  // Keep the stats panel current while it's open
+  useEffect(() => {
+    if (!showStats) return;
+
+    const update = () => setStats(streamRef.current?.getStats() ?? null);
+    update();
+    const interval = setInterval(update, STATS_INTERVAL);
+    return () => clearInterval(interval);
+  }, [showStats]);
+
+  const selectLevel = (index: number) => {
+    streamRef.current?.setLevel(index);
+    setLevel(index);
+  };
+
+  return (
+    <div className={`stream-player relative group w-full ${className}`}>
+      <video
+        ref={videoRef}
+        className="w-full h-full rounded-lg"
+        controls
+        playsInline
+        controlsList="nodownload"
+      />
+
+      <div className="absolute top-3 right-3 flex items-center gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        {levels.length > 1 && (
+          <select
+            value={level}
+            onChange={(e) => selectLevel(Number(e.target.value))}
+            className="bg-black/70 text-white text-sm rounded px-2 py-1"
+            title="Quality"
+          >
+            <option value={-1}>Auto</option>
+            {levels.map(streamLevel => (
+              <option key={streamLevel.index} value={streamLevel.index}>
+                {streamLevel.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setShowStats(!showStats)}
+          className={cn(
+            'bg-black/70 text-white rounded p-1.5 hover:bg-black/90',
+            showStats && 'text-blue-400'
+          )}
+          title="Streaming stats"
+        >
+          <Activity className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showStats && stats && (
+        <div className="absolute top-12 right-3 bg-black/80 text-white text-xs rounded-lg p-3 space-y-1 pointer-events-none font-mono">
+          <div>Buffer: {stats.bufferAhead.toFixed(1)} s</div>
+          <div>Bandwidth: {formatBitrate(stats.bandwidth)}</div>
+          <div>
+            Playing: {stats.height ? `${stats.height}p` : '–'} ({formatBitrate(stats.bitrate)})
+            {level < 0 && ' · auto'}
+          </div>
+          {stats.droppedFrames !== undefined && <div>Dropped frames: {stats.droppedFrames}</div>}
+        </div>
+      )}
+
+      {/* Covers the video rather than replacing it, so the element is still
+          there to play the next stream in */}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-900 rounded-lg p-8">
+          <div className="text-center">
+            <h3 className="text-lg font-medium mb-1">Can't play this stream</h3>
+            <p className="text-gray-400 max-w-md">{error}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  MAX_MOVIE_DOCUMENT_SIZE,
+  SubtitleTrack,
+  getFirestoreSize,
+  isVtt,
+  parseVtt,
+  srtToVtt
+} from '../lib/subtitles';
+
+interface SubtitleUploaderProps {
+  tracks: SubtitleTrack[];
+  // Size of the rest of the movie's document, which the tracks share
+  // Firestore's limit with (see getFirestoreSize)
+  documentSize: number;
+  onChange: (tracks: SubtitleTrack[]) => void;
+  onError: (error: string) => void;
+}
+
+// Adds SRT or WebVTT subtitle tracks to a movie. SRT is converted to WebVTT,
+// which is what the player reads.
+export function SubtitleUploader({ tracks, documentSize, onChange, onError }: SubtitleUploaderProps) {
+  const [language, setLanguage] = useState('');
+  const [label, setLabel] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = async () => {
+    if (!file || !language.trim()) return;
+
+    try {
+      const text = await file.text();
+      const vtt = isVtt(text) ? text : srtToVtt(text);
+
+      if (parseVtt(vtt).length === 0) {
+        onError(`${file.name} has no subtitles we can read. Use an SRT or WebVTT file.`);
+        return;
+      }
+
+      const updated = [...tracks, { language: language.trim(), label: label.trim() || language.trim(), vtt }];
+      if (documentSize + getFirestoreSize(updated) > MAX_MOVIE_DOCUMENT_SIZE) {
+        onError('These subtitles are too large to store with the movie');
+        return;
+      }
+
+      onChange(updated);
+
+      // Reset inputs
+      setLanguage('');
+      setLabel('');
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } catch (error) {
+      console.error('Error reading subtitle file:', error);
+      onError('Failed to read the subtitle file');
+    }
+  };
+
+  return (
+    <div className="subtitle-uploader">
+      <label className="block text-sm font-medium mb-1">Subtitles</label>
+
+      {tracks.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {tracks.map((track, index) => (
+            <li key={index} className="flex items-center justify-between bg-gray-800 rounded px-3 py-1.5 text-sm">
+              <span>
+                {track.label} <span className="text-gray-500">({track.language})</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(tracks.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-400"
+                title="Remove track"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <input
+          type="text"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="Language code, e.g. en"
+          className="bg-gray-800 text-white rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label, e.g. English"
+          className="bg-gray-800 text-white rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".srt,.vtt,text/vtt"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFile(e.target.files?.[0] ?? null)}
+          className="text-sm text-gray-400 file:mr-2 file:rounded file:border-0 file:bg-gray-700 file:px-2 file:py-1 file:text-white"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!file || !language.trim()}
+          className="bg-gray-700 hover:bg-gray-600 text-white rounded px-3 py-2 text-sm disabled:opacity-50"
+        >
+          Add track
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Optional. Upload SRT or WebVTT files; viewers pick their language in the player.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Captions, MessageSquareQuote, Minus, Plus } from 'lucide-react';
+import { cn, formatTime } from '../lib/utils';
+import { useSocket } from '../lib/socketContext';
+import type { PlaybackAdapter } from '../lib/playback';
+import {
+  SubtitleBackground,
+  SubtitlePreferences,
+  SubtitleSize,
+  SubtitleTrack,
+  getCueText,
+  getDefaultTrack,
+  loadSubtitlePreferences,
+  parseVtt,
+  saveSubtitlePreferences
+} from '../lib/subtitles';
+
+// How often the position is checked for the cue to show
+const CUE_CHECK_INTERVAL = 200;
+
+// Seconds the offset moves with each step
+const OFFSET_STEP = 0.5;
+
+// Longest quote posted to chat, well within the chat message limit
+const MAX_QUOTE_LENGTH = 500;
+
+const SIZE_CLASSES: Record<SubtitleSize, string> = {
+  small: 'text-sm md:text-base',
+  medium: 'text-base md:text-xl',
+  large: 'text-lg md:text-3xl'
+};
+
+const BACKGROUND_CLASSES: Record<SubtitleBackground, string> = {
+  none: '',
+  translucent: 'bg-black/60',
+  solid: 'bg-black'
+};
+
+interface OptionButtonsProps<T extends string> {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function OptionButtons<T extends string>({ options, value, onChange }: OptionButtonsProps<T>) {
+  return (
+    <div className="flex gap-1">
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'flex-1 px-2 py-1 rounded text-xs',
+            option.value === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface SubtitlesProps {
+  tracks: SubtitleTrack[];
+  // The player to follow
+  adapter: PlaybackAdapter;
+}
+
+// Draws the current cue over the player and lets the viewer pick their
+// language, shift the timing and style the text. Every viewer chooses for
+// themselves, except that the room can share one timing so a track that's out
+// of sync only has to be fixed once.
+export function Subtitles({ tracks, adapter }: SubtitlesProps) {
+  const {
+    roomId,
+    username,
+    serverFeatures,
+    canControl,
+    subtitleOffset,
+    setSubtitleOffset,
+    sendChatMessage
+  } = useSocket();
+  const [preferences, setPreferences] = useState<SubtitlePreferences>(loadSubtitlePreferences);
+  const [track, setTrack] = useState(() => getDefaultTrack(tracks, preferences));
+  // Seconds to delay the subtitles by, to fix tracks that are out of sync
+  const [localOffset, setLocalOffset] = useState(0);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [text, setText] = useState<string | null>(null);
+  const cues = useMemo(() => (track ? parseVtt(track.vtt) : []), [track]);
+
+  const canShare = !!roomId && serverFeatures.includes('shared_subtitles');
+  // The room's timing wins while it's shared
+  const roomOffset = canShare ? subtitleOffset : null;
+  const shared = roomOffset !== null;
+  const offset = roomOffset ?? localOffset;
+  const canChangeOffset = !shared || canControl;
+
+  // Follow the player's position
+  useEffect(() => {
+    if (cues.length === 0) {
+      setText(null);
+      return;
+    }
+
+    const update = () => setText(getCueText(cues, adapter.getPosition() - offset));
+    update();
+    const interval = setInterval(update, CUE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [cues, adapter, offset]);
+
+  const updatePreferences = (changes: Partial<SubtitlePreferences>) => {
+    const updated = { ...preferences, ...changes };
+    setPreferences(updated);
+    saveSubtitlePreferences(updated);
+  };
+
+  const changeOffset = (value: number) => {
+    if (shared) {
+      setSubtitleOffset(value);
+    } else {
+      setLocalOffset(value);
+    }
+  };
+
+  // Start sharing our timing with the room, or hand it back to each viewer
+  const toggleShared = () => {
+    if (shared) {
+      setLocalOffset(offset);
+      setSubtitleOffset(null);
+    } else {
+      setSubtitleOffset(localOffset);
+    }
+  };
+
+  // Post the line on screen to chat, with where it is in the movie
+  const quoteLine = () => {
+    if (!text) return;
+
+    const line = text.replace(/\s*\n\s*/g, ' / ');
+    const quote = line.length > MAX_QUOTE_LENGTH ? `${line.slice(0, MAX_QUOTE_LENGTH - 1)}…` : line;
+    sendChatMessage(`“${quote}” (${formatTime(adapter.getPosition())})`);
+  };
+
+  const selectTrack = (index: number) => {
+    const selected = tracks[index] ?? null;
+    setTrack(selected);
+    updatePreferences({ language: selected ? selected.language : null });
+  };
+
+  return (
+    <>
+      {text && (
+        <div className="absolute inset-x-0 bottom-16 flex justify-center px-4 pointer-events-none z-10">
+          <p
+            className={cn(
+              'text-white text-center whitespace-pre-line px-2 py-0.5 rounded',
+              SIZE_CLASSES[preferences.size],
+              BACKGROUND_CLASSES[preferences.background]
+            )}
+            style={preferences.background === 'none' ? { textShadow: '0 0 4px #000, 0 0 2px #000' } : undefined}
+          >
+            {text}
+          </p>
+        </div>
+      )}
+
+      <div className="absolute bottom-16 right-3 z-20 flex gap-2">
+        {text && roomId && username && (
+          <button
+            onClick={quoteLine}
+            className="bg-black/70 text-white rounded p-1.5 opacity-60 hover:opacity-100 hover:bg-black/90 transition-opacity"
+            title="Quote this line in chat"
+          >
+            <MessageSquareQuote className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setMenuOpen(!menuOpen)}
+          className={cn(
+            'bg-black/70 rounded p-1.5 opacity-60 hover:opacity-100 hover:bg-black/90 transition-opacity',
+            track ? 'text-blue-400' : 'text-white',
+            menuOpen && 'opacity-100'
+          )}
+          title="Subtitles"
+        >
+          <Captions className="w-4 h-4" />
+        </button>
+
+        {menuOpen && (
+          <div className="absolute bottom-full right-0 mb-2 w-64 bg-gray-900 border border-gray-800 rounded-lg shadow-xl p-3 space-y-3 text-sm">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Language</label>
+              <select
+                value={track ? tracks.indexOf(track) : -1}
+                onChange={(e) => selectTrack(Number(e.target.value))}
+                className="w-full bg-gray-800 text-white rounded px-2 py-1"
+              >
+                <option value={-1}>Off</option>
+                {tracks.map((subtitleTrack, index) => (
+                  <option key={index} value={index}>
+                    {subtitleTrack.label || subtitleTrack.language}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Offset</label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => changeOffset(offset - OFFSET_STEP)}
+                  disabled={!canChangeOffset}
+                  className="bg-gray-800 hover:bg-gray-700 rounded p-1 disabled:opacity-50"
+                  title="Show subtitles earlier"
+                >
+                  <Minus className="w-3 h-3" />
+                </button>
+                <span className="flex-1 text-center font-mono">
+                  {offset > 0 ? '+' : ''}{offset.toFixed(1)} s
+                </span>
+                <button
+                  onClick={() => changeOffset(offset + OFFSET_STEP)}
+                  disabled={!canChangeOffset}
+                  className="bg-gray-800 hover:bg-gray-700 rounded p-1 disabled:opacity-50"
+                  title="Show subtitles later"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => changeOffset(0)}
+                  disabled={offset === 0 || !canChangeOffset}
+                  className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                >
+                  Reset
+                </button>
+              </div>
+              {canShare && canControl && (
+                <label className="flex items-center gap-2 mt-2 text-xs text-gray-300">
+                  <input type="checkbox" checked={shared} onChange={toggleShared} />
+                  Use this timing for everyone in the room
+                </label>
+              )}
+              {shared && !canControl && (
+                <p className="mt-2 text-xs text-gray-500">Timing is set for the whole room</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Size</label>
+              <OptionButtons
+                options={[
+                  { value: 'small', label: 'Small' },
+                  { value: 'medium', label: 'Medium' },
+                  { value: 'large', label: 'Large' }
+                ]}
+                value={preferences.size}
+                onChange={(size) => updatePreferences({ size })}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Background</label>
+              <OptionButtons
+                options={[
+                  { value: 'none', label: 'None' },
+                  { value: 'translucent', label: 'Shaded' },
+                  { value: 'solid', label: 'Solid' }
+                ]}
+                value={preferences.background}
+                onChange={(background) => updatePreferences({ background })}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+import { RefreshCw } from 'lucide-react';
+
+interface UpgradeBannerProps {
+  message: string;
+}
+
+// Shown when the sync server no longer speaks this version of the app's
+// protocol, e.g. after a deploy while the page was open or cached
+export function UpgradeBanner({ message }: UpgradeBannerProps) {
+  return (
+    <div
+      role="alert"
+      className="fixed top-0 inset-x-0 z-50 bg-amber-500 text-gray-900 px-4 py-2 flex items-center justify-center gap-3 text-sm font-medium"
+    >
+      <span>{message}</span>
+      <button
+        onClick={() => window.location.reload()}
+        className="bg-gray-900 hover:bg-gray-800 text-white px-3 py-1 rounded flex items-center gap-1"
+      >
+        <RefreshCw size={14} />
+        Reload
+      </button>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 import '@livekit/components-styles';
 import { Track } from 'livekit-client';
 import { useSocket } from '../lib/socketContext';
+import { useAuth } from '../lib/authContext';
 
 // Custom stylesheet to override LiveKit styles and hide their control bars
 const customStyles = `
@@ -225,6 +226,7 @@ export function VideoChat({ token: providedToken, movieTitle }: VideoChatProps)
   const [step, setStep] = useState<'select' | 'configure' | 'chat'>('select');
   const [isLargeSize, setIsLargeSize] = useState(false);
   const { roomId, username } = useSocket();
+  const { userId, getIdToken } = useAuth();
   
   // Using LiveKit's demo server for testing
   const serverUrl = import.meta.env.VITE_LIVEKIT_URL || "wss://demo.livekit.cloud";
@@ -240,16 +242,21 @@ export function VideoChat({ token: providedToken, movieTitle }: VideoChatProps)
       // Fix URL construction - use proper endpoint
       const endpoint = `${serverUrl}/generate-token`;
       
+      const idToken = await getIdToken();
+      
       const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
           'Cache-Control': 'no-cache, no-store, must-revalidate',
           'Pragma': 'no-cache',
           'Expires': '0'
         },
         body: JSON.stringify({
           roomId: roomName,
+          // Our stable ID is the LiveKit identity; the name is just a label
+          userId,
           username
         })
       });
@@ -1,75 +1,32 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useCallback } from 'react';
 import { Play, Pause, Volume2, VolumeX, Maximize2 } from 'lucide-react';
 import { cn } from '../lib/utils';
-import { useSocket } from '../lib/socketContext';
+import { PlaybackAdapterCallback, useVideoAdapterRef } from '../lib/playback';
 
 interface VideoPlayerProps {
   src: string;
+  className?: string;
+  // Receives the player's playback adapter, for room sync
+  onAdapter?: PlaybackAdapterCallback;
   onTimeUpdate?: (currentTime: number) => void;
   onPlay?: () => void;
   onPause?: () => void;
 }
 
-export function VideoPlayer({ src, onTimeUpdate, onPlay, onPause }: VideoPlayerProps) {
-  const videoRef = useRef<HTMLVideoElement>(null);
+// Our own player for video files we can play directly, with custom controls.
+// Room sync drives it through its adapter; everything the viewer does goes
+// through the video element, whose events the adapter reports.
+export function VideoPlayer({ src, className, onAdapter, onTimeUpdate, onPlay, onPause }: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [progress, setProgress] = useState(0);
-  const { socket, sendVideoState, roomId } = useSocket();
-  const [isSeeking, setIsSeeking] = useState(false);
-  const [isExternalUpdate, setIsExternalUpdate] = useState(false);
+  const adapterRef = useVideoAdapterRef(onAdapter);
   
-  // Listen for video state updates from the server
-  useEffect(() => {
-    if (!socket) return;
-    
-    const handleVideoStateUpdate = ({ currentTime, isPlaying, username }: { 
-      currentTime: number, 
-      isPlaying: boolean,
-      username: string 
-    }) => {
-      console.log(`Video state update from ${username}: ${isPlaying ? 'playing' : 'paused'} at ${currentTime.toFixed(2)}`);
-      
-      if (!videoRef.current) return;
-      
-      // Mark this as an external update to prevent sending it back
-      setIsExternalUpdate(true);
-      
-      // Update the video time if it's out of sync by more than 1 second
-      const timeDiff = Math.abs(videoRef.current.currentTime - currentTime);
-      if (timeDiff > 1) {
-        videoRef.current.currentTime = currentTime;
-      }
-      
-      // Update play state
-      if (isPlaying && videoRef.current.paused) {
-        videoRef.current.play().catch(e => console.error('Error playing video:', e));
-      } else if (!isPlaying && !videoRef.current.paused) {
-        videoRef.current.pause();
-      }
-      
-      setIsPlaying(isPlaying);
-    };
-    
-    socket.on('video_state_update', handleVideoStateUpdate);
-    
-    // Also listen for initial room state when joining
-    socket.on('room_users', ({ videoState }: { videoState: { currentTime: number; isPlaying: boolean } }) => {
-      if (videoState && videoRef.current) {
-        videoRef.current.currentTime = videoState.currentTime;
-        setIsPlaying(videoState.isPlaying);
-        
-        if (videoState.isPlaying) {
-          videoRef.current.play().catch(e => console.error('Error playing video:', e));
-        }
-      }
-    });
-    
-    return () => {
-      socket.off('video_state_update');
-      socket.off('room_users');
-    };
-  }, [socket]);
+  const setVideoRef = useCallback((video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    adapterRef(video);
+  }, [adapterRef]);
 
   const togglePlay = () => {
     if (videoRef.current) {
@@ -80,19 +37,6 @@ export function VideoPlayer({ src, onTimeUpdate, onPlay, onPause }: VideoPlayerP
         videoRef.current.play().catch(e => console.error('Error playing video:', e));
         onPlay?.();
       }
-      
-      setIsPlaying(!isPlaying);
-      
-      // Send update to server if in a room and not reacting to an external update
-      if (roomId && !isExternalUpdate) {
-        sendVideoState({
-          currentTime: videoRef.current.currentTime,
-          isPlaying: !isPlaying
-        });
-      }
-      
-      // Reset the external update flag
-      setIsExternalUpdate(false);
     }
   };
 
@@ -111,35 +55,13 @@ export function VideoPlayer({ src, onTimeUpdate, onPlay, onPause }: VideoPlayerP
     }
   };
 
+  // Seeking the video is reported to the room by its adapter
   const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (videoRef.current) {
       const rect = e.currentTarget.getBoundingClientRect();
       const x = e.clientX - rect.left;
-      const clickedValue = (x / rect.width) * videoRef.current.duration;
-      videoRef.current.currentTime = clickedValue;
-      
-      // Send update to server if in a room
-      if (roomId) {
-        sendVideoState({
-          currentTime: clickedValue,
-          isPlaying
-        });
-      }
-    }
-  };
-  
-  const handleSeekStart = () => {
-    setIsSeeking(true);
-  };
-  
-  const handleSeekEnd = () => {
-    if (isSeeking && videoRef.current && roomId) {
-      sendVideoState({
-        currentTime: videoRef.current.currentTime,
-        isPlaying
-      });
+      videoRef.current.currentTime = (x / rect.width) * videoRef.current.duration;
     }
-    setIsSeeking(false);
   };
 
   const toggleFullscreen = () => {
@@ -153,38 +75,14 @@ export function VideoPlayer({ src, onTimeUpdate, onPlay, onPause }: VideoPlayerP
   };
 
   return (
-    <div className="relative group w-full aspect-video bg-black rounded-lg overflow-hidden">
+    <div className={cn("relative group w-full aspect-video bg-black rounded-lg overflow-hidden", className)}>
       <video
-        ref={videoRef}
+        ref={setVideoRef}
         src={src}
         className="w-full h-full"
         onTimeUpdate={handleTimeUpdate}
-        onPlay={() => {
-          if (!isExternalUpdate) {
-            setIsPlaying(true);
-            if (roomId && videoRef.current) {
-              sendVideoState({
-                currentTime: videoRef.current.currentTime,
-                isPlaying: true
-              });
-            }
-          }
-          setIsExternalUpdate(false);
-        }}
-        onPause={() => {
-          if (!isExternalUpdate) {
-            setIsPlaying(false);
-            if (roomId && videoRef.current && !isSeeking) {
-              sendVideoState({
-                currentTime: videoRef.current.currentTime,
-                isPlaying: false
-              });
-            }
-          }
-          setIsExternalUpdate(false);
-        }}
-        onSeeking={handleSeekStart}
-        onSeeked={handleSeekEnd}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
       />
       
       <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
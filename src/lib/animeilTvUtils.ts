@@ -234,17 +234,20 @@ export const extractAnimeiLTvMetadata = async (iframe: HTMLIFrameElement): Promi
 /**
  * Monitor AnimeiLTV player events
  * @param iframe The iframe element containing AnimeiLTV content
- * @param onPlay Callback for play events
- * @param onPause Callback for pause events
+ * @param onPlay Callback for play events, with the position
+ * @param onPause Callback for pause events, with the position
  * @param onTimeUpdate Callback for time update events
+ * @param onSeeked Callback for seeks, with the new position
+ * @returns Function that stops monitoring, or null if there's no player to monitor
  */
 export const monitorAnimeiLTvPlayerEvents = async (
   iframe: HTMLIFrameElement,
-  onPlay?: () => void,
-  onPause?: () => void,
-  onTimeUpdate?: (currentTime: number) => void
-): Promise<() => void> => {
-  if (!iframe) return () => {};
+  onPlay?: (currentTime: number) => void,
+  onPause?: (currentTime: number) => void,
+  onTimeUpdate?: (currentTime: number, duration: number) => void,
+  onSeeked?: (currentTime: number) => void
+): Promise<(() => void) | null> => {
+  if (!iframe) return null;
   
   const setupMonitoringScript = `
     (function() {
@@ -258,11 +261,17 @@ export const monitorAnimeiLTvPlayerEvents = async (
       // Setup event listeners
       videoElements.forEach(video => {
         video.addEventListener('play', function() {
-          window.parent.postMessage({type: 'animeil-play'}, '*');
+          window.parent.postMessage({type: 'animeil-play', currentTime: video.currentTime}, '*');
         });
         
         video.addEventListener('pause', function() {
-          window.parent.postMessage({type: 'animeil-pause'}, '*');
+          // Browsers may pause while the viewer drags the seek bar
+          if (video.seeking) return;
+          window.parent.postMessage({type: 'animeil-pause', currentTime: video.currentTime}, '*');
+        });
+        
+        video.addEventListener('seeked', function() {
+          window.parent.postMessage({type: 'animeil-seeked', currentTime: video.currentTime}, '*');
         });
         
         video.addEventListener('timeupdate', function() {
@@ -282,23 +291,28 @@ export const monitorAnimeiLTvPlayerEvents = async (
   try {
     const result = await sendCommandToIframe(iframe, setupMonitoringScript);
     
-    if (!result) return () => {};
+    if (!result) return null;
     
     // Set up message event listener
     const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
       if (!event.data || typeof event.data !== 'object') return;
       
+      const { currentTime } = event.data;
+      if (typeof currentTime !== 'number') return;
+      
       switch (event.data.type) {
         case 'animeil-play':
-          onPlay?.();
+          onPlay?.(currentTime);
           break;
         case 'animeil-pause':
-          onPause?.();
+          onPause?.(currentTime);
+          break;
+        case 'animeil-seeked':
+          onSeeked?.(currentTime);
           break;
         case 'animeil-timeupdate':
-          if (typeof event.data.currentTime === 'number') {
-            onTimeUpdate?.(event.data.currentTime);
-          }
+          onTimeUpdate?.(currentTime, event.data.duration);
           break;
       }
     };
@@ -311,6 +325,52 @@ export const monitorAnimeiLTvPlayerEvents = async (
     };
   } catch (err) {
     console.error('Error setting up AnimeiLTV player monitoring:', err);
-    return () => {};
+    return null;
+  }
+};
+
+export type AnimeiLTvCommand =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'seek'; position: number }
+  | { type: 'rate'; rate: number };
+
+/**
+ * Control the AnimeiLTV player
+ * @param iframe The iframe element containing AnimeiLTV content
+ * @param command What the player should do
+ * @returns Promise that resolves to true if there was a player to control
+ */
+export const controlAnimeiLTvPlayer = async (iframe: HTMLIFrameElement, command: AnimeiLTvCommand): Promise<boolean> => {
+  if (!iframe) return false;
+  
+  const controlScript = `
+    (function(command) {
+      const video = document.querySelector('video');
+      if (!video) return false;
+      
+      switch (command.type) {
+        case 'play':
+          Promise.resolve(video.play()).catch(function() {});
+          break;
+        case 'pause':
+          video.pause();
+          break;
+        case 'seek':
+          video.currentTime = command.position;
+          break;
+        case 'rate':
+          video.playbackRate = command.rate;
+          break;
+      }
+      return true;
+    })(${JSON.stringify(command)});
+  `;
+  
+  try {
+    return await sendCommandToIframe(iframe, controlScript);
+  } catch (err) {
+    console.error('Error controlling AnimeiLTV player:', err);
+    return false;
   }
 }; 
\ No newline at end of file
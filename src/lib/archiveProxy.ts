@@ -3,8 +3,25 @@
  * while avoiding CORS issues.
  */
 
-// In a real production app, this would be replaced with a server-side proxy
-// that makes the actual requests to Archive.org and returns the results to the client
+// Requests that need Archive.org's API go through our proxy, the `api` Firebase
+// function. `server/proxy.js` can stand in for it in development, but doesn't
+// list media files, so Archive.org movies then play in the unsynced embed.
+const ARCHIVE_PROXY_URL = import.meta.env.VITE_ARCHIVE_PROXY_URL || 'https://us-central1-movie-meet-1a81b.cloudfunctions.net/api';
+
+/**
+ * A video file of an Archive.org item that can be played directly
+ */
+export interface ArchiveMediaFile {
+  name: string;
+  url: string;
+  mimeType: string;
+  format: string;
+  // Short name for the quality menu, such as "720p"
+  label: string;
+  width?: number;
+  height?: number;
+  size?: number;
+}
 
 /**
  * Validates an Archive.org ID by checking if it follows the right format
@@ -59,4 +76,21 @@ export const getArchiveEmbedUrl = (id: string): string => {
 export const getArchiveThumbnailUrl = (id: string): string => {
   // In a production app, this would go through your backend proxy
   return `https://archive.org/services/img/${id.trim()}`;
+};
+
+/**
+ * Gets the video files of an Archive.org item we can play ourselves, best
+ * quality first
+ * 
+ * @param id The Archive.org ID
+ * @returns The item's MP4, WebM and OGV derivatives
+ */
+export const getArchiveMediaFiles = async (id: string): Promise<ArchiveMediaFile[]> => {
+  const response = await fetch(`${ARCHIVE_PROXY_URL}/api/archive/media/${encodeURIComponent(id.trim())}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Archive.org media files (${response.status})`);
+  }
+  
+  const { files } = await response.json();
+  return files || [];
 }; 
\ No newline at end of file
@@ -0,0 +1,172 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import {
+  User,
+  onIdTokenChanged,
+  signInAnonymously,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signInWithPopup,
+  linkWithCredential,
+  linkWithPopup,
+  updateProfile,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  signOut as firebaseSignOut,
+} from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { auth } from './firebase';
+import { getClientUserId } from './userIdentity';
+
+interface AuthContextType {
+  // Signed-in Firebase user; guests are signed in anonymously
+  user: User | null;
+  // Our identity in rooms: the Firebase UID, or this browser's own ID if
+  // signing in isn't possible
+  userId: string;
+  // Whether the user has the `admin` custom claim
+  isAdmin: boolean;
+  // True until Firebase has restored (or created) the session
+  loading: boolean;
+  signInWithEmail: (email: string, password: string) => Promise<void>;
+  signUpWithEmail: (email: string, password: string, displayName?: string) => Promise<void>;
+  signInWithGoogle: () => Promise<void>;
+  signOut: () => Promise<void>;
+  // Current ID token for the server, refreshed when it's about to expire
+  getIdToken: () => Promise<string | null>;
+  // Re-read custom claims, e.g. right after being made an admin
+  refreshClaims: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+const googleProvider = new GoogleAuthProvider();
+
+// Errors meaning the account to link already exists, so we sign in to it instead
+const isAccountInUse = (error: unknown) =>
+  error instanceof FirebaseError &&
+  (error.code === 'auth/credential-already-in-use' || error.code === 'auth/email-already-in-use');
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  // Only sign in as a guest once per page, even if it fails
+  const triedGuestSignInRef = useRef(false);
+
+  useEffect(() => {
+    return onIdTokenChanged(auth, async (currentUser) => {
+      setUser(currentUser);
+
+      if (!currentUser) {
+        setIsAdmin(false);
+
+        // Everyone gets an identity; guests are signed in anonymously
+        if (!triedGuestSignInRef.current) {
+          triedGuestSignInRef.current = true;
+          try {
+            await signInAnonymously(auth);
+            return;
+          } catch (error) {
+            console.warn('Guest sign-in failed, using a local ID instead:', error);
+          }
+        }
+
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { claims } = await currentUser.getIdTokenResult();
+        setIsAdmin(claims.admin === true);
+      } catch (error) {
+        console.error('Error reading auth claims:', error);
+        setIsAdmin(false);
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const signInWithEmail = async (email: string, password: string) => {
+    await signInWithEmailAndPassword(auth, email, password);
+  };
+
+  // Guests keep their UID (and with it their rooms) when creating an account
+  const signUpWithEmail = async (email: string, password: string, displayName?: string) => {
+    const currentUser = auth.currentUser;
+    const { user: newUser } = currentUser?.isAnonymous
+      ? await linkWithCredential(currentUser, EmailAuthProvider.credential(email, password))
+      : await createUserWithEmailAndPassword(auth, email, password);
+
+    if (displayName) {
+      await updateProfile(newUser, { displayName });
+    }
+  };
+
+  const signInWithGoogle = async () => {
+    const currentUser = auth.currentUser;
+    if (currentUser?.isAnonymous) {
+      try {
+        await linkWithPopup(currentUser, googleProvider);
+        return;
+      } catch (error) {
+        if (!isAccountInUse(error)) throw error;
+      }
+    }
+    await signInWithPopup(auth, googleProvider);
+  };
+
+  // Signing out leaves the user a guest again
+  const signOut = async () => {
+    await firebaseSignOut(auth);
+    await signInAnonymously(auth).catch((error) => {
+      console.warn('Guest sign-in failed:', error);
+    });
+  };
+
+  const getIdToken = async () => {
+    if (!auth.currentUser) return null;
+    try {
+      return await auth.currentUser.getIdToken();
+    } catch (error) {
+      console.error('Error getting ID token:', error);
+      return null;
+    }
+  };
+
+  const refreshClaims = async () => {
+    if (!auth.currentUser) return;
+    const { claims } = await auth.currentUser.getIdTokenResult(true);
+    setIsAdmin(claims.admin === true);
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        userId: user?.uid ?? getClientUserId(),
+        isAdmin,
+        loading,
+        signInWithEmail,
+        signUpWithEmail,
+        signInWithGoogle,
+        signOut,
+        getIdToken,
+        refreshClaims,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -1,6 +1,8 @@
 import { initializeApp } from 'firebase/app';
 import { getFirestore } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth';
+import { getDatabase } from 'firebase/database';
+import { getFunctions } from 'firebase/functions';
 
 // Your Firebase configuration
 const firebaseConfig = {
@@ -18,5 +20,7 @@ const app = initializeApp(firebaseConfig);
 // Initialize services
 export const db = getFirestore(app);
 export const auth = getAuth(app);
+export const database = getDatabase(app);
+export const functions = getFunctions(app);
 
 export default app; 
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { PlaybackAdapter, createPlaybackEmitter } from './types';
+import { controlAnimeiLTvPlayer, monitorAnimeiLTvPlayerEvents } from '../animeilTvUtils';
+
+// Adapter for AnimeiL-TV's player in its iframe, driven through the same
+// script bridge as the other AnimeiL-TV helpers: commands go in as scripts and
+// the player's events come back as messages. The player only reports its
+// position a few times a second, so it's extrapolated in between. Resolves to
+// null if the page doesn't answer, in which case the player can't be synced.
+export const createAnimeilTvAdapter = async (iframe: HTMLIFrameElement): Promise<PlaybackAdapter | null> => {
+  const { on, emit, clear } = createPlaybackEmitter();
+  let position = 0;
+  let positionAt = performance.now();
+  let paused = true;
+  let rate = 1;
+  let duration = 0;
+  // Events we're expecting because we caused them
+  let expectedPlay = false;
+  let expectedPause = false;
+  let expectedSeek = false;
+
+  const setPosition = (currentTime: number) => {
+    position = currentTime;
+    positionAt = performance.now();
+  };
+
+  const getPosition = () => (paused ? position : position + ((performance.now() - positionAt) / 1000) * rate);
+
+  const stopMonitoring = await monitorAnimeiLTvPlayerEvents(
+    iframe,
+    (currentTime) => {
+      setPosition(currentTime);
+      paused = false;
+      if (expectedPlay) {
+        expectedPlay = false;
+        return;
+      }
+      emit('play', currentTime);
+    },
+    (currentTime) => {
+      setPosition(currentTime);
+      paused = true;
+      if (expectedPause) {
+        expectedPause = false;
+        return;
+      }
+      emit('pause', currentTime);
+    },
+    (currentTime, mediaDuration) => {
+      setPosition(currentTime);
+      if (Number.isFinite(mediaDuration) && mediaDuration !== duration) {
+        duration = mediaDuration;
+        emit('duration', duration);
+      }
+    },
+    (currentTime) => {
+      setPosition(currentTime);
+      if (expectedSeek) {
+        expectedSeek = false;
+        return;
+      }
+      emit('seek', currentTime);
+    }
+  );
+  if (!stopMonitoring) return null;
+
+  return {
+    capabilities: { control: true, rate: true, events: true, buffering: false },
+    play: async () => {
+      if (!paused) return;
+      expectedPlay = true;
+      setPosition(getPosition());
+      paused = false;
+      if (!(await controlAnimeiLTvPlayer(iframe, { type: 'play' }))) {
+        expectedPlay = false;
+        paused = true;
+        throw new Error('AnimeiL-TV player did not respond');
+      }
+    },
+    pause: () => {
+      if (paused) return;
+      expectedPause = true;
+      setPosition(getPosition());
+      paused = true;
+      controlAnimeiLTvPlayer(iframe, { type: 'pause' });
+    },
+    seek: (target) => {
+      expectedSeek = true;
+      setPosition(target);
+      controlAnimeiLTvPlayer(iframe, { type: 'seek', position: target });
+    },
+    getPosition,
+    isPaused: () => paused,
+    setRate: (playbackRate) => {
+      setPosition(getPosition());
+      rate = playbackRate;
+      controlAnimeiLTvPlayer(iframe, { type: 'rate', rate: playbackRate });
+    },
+    getRate: () => rate,
+    on,
+    destroy: () => {
+      stopMonitoring();
+      clear();
+    },
+  };
+};
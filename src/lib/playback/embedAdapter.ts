@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { PlaybackAdapter, PlaybackAdapterCallback, createPlaybackEmitter } from './types';
+
+// Adapter for a player embedded from another site (Mega, Archive.org's embed
+// page, external sites), which we can neither control nor watch. Each viewer
+// plays it themselves; room sync leaves it alone.
+export const createEmbedAdapter = (): PlaybackAdapter => {
+  const { on, clear } = createPlaybackEmitter();
+
+  return {
+    capabilities: { control: false, rate: false, events: false, buffering: false },
+    play: async () => {},
+    pause: () => {},
+    seek: () => {},
+    getPosition: () => 0,
+    isPaused: () => true,
+    setRate: () => {},
+    getRate: () => 1,
+    on,
+    destroy: clear,
+  };
+};
+
+// Hand `onAdapter` an embed adapter while `enabled`
+export const useEmbedAdapter = (onAdapter?: PlaybackAdapterCallback, enabled = true) => {
+  useEffect(() => {
+    if (!onAdapter || !enabled) return;
+
+    const adapter = createEmbedAdapter();
+    onAdapter(adapter);
+    return () => {
+      adapter.destroy();
+      onAdapter(null);
+    };
+  }, [onAdapter, enabled]);
+};
@@ -0,0 +1,109 @@
+import { useCallback, useRef } from 'react';
+import { PlaybackAdapter, PlaybackAdapterCallback, createPlaybackEmitter } from './types';
+
+// Adapter for a `<video>` element we render ourselves. Play, pause and seek
+// events the adapter caused are told apart from the viewer's own, so only the
+// viewer's are reported.
+export const createHtmlVideoAdapter = (video: HTMLVideoElement): PlaybackAdapter => {
+  const { on, emit, clear } = createPlaybackEmitter();
+  // Events we're expecting because we caused them
+  let expectedPlay = false;
+  let expectedPause = false;
+  // A seek started while another is under way ends with a single `seeked`
+  let expectedSeek = false;
+
+  const handlePlay = () => {
+    if (expectedPlay) {
+      expectedPlay = false;
+      return;
+    }
+    emit('play', video.currentTime);
+  };
+
+  const handlePause = () => {
+    if (expectedPause) {
+      expectedPause = false;
+      return;
+    }
+    // Browsers may pause while the viewer drags the seek bar
+    if (!video.seeking) {
+      emit('pause', video.currentTime);
+    }
+  };
+
+  const handleSeeked = () => {
+    if (expectedSeek) {
+      expectedSeek = false;
+      return;
+    }
+    emit('seek', video.currentTime);
+  };
+
+  const handleDuration = () => {
+    if (Number.isFinite(video.duration)) {
+      emit('duration', video.duration);
+    }
+  };
+
+  const handleWaiting = () => emit('buffering', 'waiting');
+  const handleCanPlay = () => emit('buffering', 'canplay');
+
+  const listeners: Array<[string, () => void]> = [
+    ['play', handlePlay],
+    ['pause', handlePause],
+    ['seeked', handleSeeked],
+    ['durationchange', handleDuration],
+    ['waiting', handleWaiting],
+    ['canplay', handleCanPlay],
+    ['playing', handleCanPlay],
+  ];
+  listeners.forEach(([event, listener]) => video.addEventListener(event, listener));
+
+  return {
+    capabilities: { control: true, rate: true, events: true, buffering: true },
+    play: async () => {
+      if (!video.paused) return;
+      expectedPlay = true;
+      try {
+        await video.play();
+      } catch (error) {
+        expectedPlay = false;
+        throw error;
+      }
+    },
+    pause: () => {
+      if (video.paused) return;
+      expectedPause = true;
+      video.pause();
+    },
+    seek: (position) => {
+      expectedSeek = true;
+      video.currentTime = position;
+    },
+    getPosition: () => video.currentTime,
+    isPaused: () => video.paused,
+    setRate: (rate) => {
+      video.playbackRate = rate;
+    },
+    getRate: () => video.playbackRate,
+    on,
+    destroy: () => {
+      listeners.forEach(([event, listener]) => video.removeEventListener(event, listener));
+      clear();
+    },
+  };
+};
+
+// Callback ref for a `<video>` element that hands `onAdapter` an adapter for
+// the element while it's mounted
+export const useVideoAdapterRef = (onAdapter?: PlaybackAdapterCallback) => {
+  const adapterRef = useRef<PlaybackAdapter | null>(null);
+  const onAdapterRef = useRef(onAdapter);
+  onAdapterRef.current = onAdapter;
+
+  return useCallback((video: HTMLVideoElement | null) => {
+    adapterRef.current?.destroy();
+    adapterRef.current = video ? createHtmlVideoAdapter(video) : null;
+    onAdapterRef.current?.(adapterRef.current);
+  }, []);
+};
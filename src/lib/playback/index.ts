@@ -0,0 +1,7 @@
+export * from './types';
+export { createHtmlVideoAdapter, useVideoAdapterRef } from './htmlVideoAdapter';
+export { createEmbedAdapter, useEmbedAdapter } from './embedAdapter';
+export { createAnimeilTvAdapter } from './animeilTvAdapter';
+export { createStreamAdapter } from './streamAdapter';
+export { useRoomPlayback } from './useRoomPlayback';
+export type { RoomPlaybackState } from './useRoomPlayback';
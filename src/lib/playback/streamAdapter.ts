@@ -0,0 +1,66 @@
+import type { BufferingState } from '../roomSync';
+import type { StreamController } from '../streaming';
+import { createHtmlVideoAdapter } from './htmlVideoAdapter';
+import { PlaybackAdapter, createPlaybackEmitter } from './types';
+
+// Seconds that must be buffered after a stall before the room hears we can
+// play again, so it doesn't resume straight into another stall
+const RESUME_BUFFER = 4;
+
+// How often the buffer is checked while stalled
+const BUFFER_CHECK_INTERVAL = 500;
+
+// Adapter for a `<video>` element fed by an adaptive stream. It plays like any
+// other element, but reports stalls the streaming engine sees and only
+// reports recovering once there's enough buffered to keep going.
+export const createStreamAdapter = (video: HTMLVideoElement, stream: StreamController): PlaybackAdapter => {
+  const base = createHtmlVideoAdapter(video);
+  const { on, emit, clear } = createPlaybackEmitter();
+  let stalled = false;
+  let bufferCheck: ReturnType<typeof setInterval> | null = null;
+
+  const stopBufferCheck = () => {
+    if (bufferCheck) {
+      clearInterval(bufferCheck);
+      bufferCheck = null;
+    }
+  };
+
+  const checkBuffer = () => {
+    const { bufferAhead } = stream.getStats();
+    const bufferedToEnd = Number.isFinite(video.duration) && video.currentTime + bufferAhead >= video.duration - 0.5;
+    if (bufferAhead < RESUME_BUFFER && !bufferedToEnd) return;
+
+    stalled = false;
+    stopBufferCheck();
+    emit('buffering', 'canplay');
+  };
+
+  const handleBuffering = (state: BufferingState) => {
+    if (state === 'waiting') {
+      if (stalled) return;
+      stalled = true;
+      emit('buffering', 'waiting');
+      bufferCheck = setInterval(checkBuffer, BUFFER_CHECK_INTERVAL);
+    } else if (stalled) {
+      checkBuffer();
+    }
+  };
+
+  const unsubscribers = [
+    base.on('buffering', handleBuffering),
+    stream.on('stall', () => handleBuffering('waiting'))
+  ];
+
+  return {
+    ...base,
+    on: (event, handler) => (event === 'buffering' ? on(event, handler) : base.on(event, handler)),
+    getStats: stream.getStats,
+    destroy: () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      stopBufferCheck();
+      clear();
+      base.destroy();
+    },
+  };
+};
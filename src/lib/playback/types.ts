@@ -0,0 +1,92 @@
+/**
+ * Playback adapters.
+ *
+ * Every video source (our own `<video>` element, Cloudinary, Archive.org,
+ * HLS and DASH streams, Mega and external sites) is played through a
+ * `PlaybackAdapter`, so room sync drives them all the same way. Sources that
+ * can't be controlled, such as third-party iframes, say so in their
+ * capabilities and are left for each viewer to play themselves.
+ */
+import type { BufferingState } from '../roomSync';
+
+// What room sync can do with a source
+export interface PlaybackCapabilities {
+  // Whether we can start, stop and seek playback
+  control: boolean;
+  // Whether we can change the playback rate, used to correct small drift
+  rate: boolean;
+  // Whether the source reports the viewer's own play, pause and seek actions
+  // and its position
+  events: boolean;
+  // Whether the source reports when it stalls and can play again
+  buffering: boolean;
+}
+
+// Events a playback adapter delivers. Play, pause and seek are only reported
+// for the viewer's own actions, never for those made through the adapter.
+export interface PlaybackEvents {
+  play: (position: number) => void;
+  pause: (position: number) => void;
+  seek: (position: number) => void;
+  // Length of the media in seconds, once it's known
+  duration: (duration: number) => void;
+  buffering: (state: BufferingState) => void;
+}
+
+export type PlaybackEventName = keyof PlaybackEvents;
+
+// How well a streaming source is keeping up
+export interface PlaybackStats {
+  // Seconds of media buffered ahead of the current position
+  bufferAhead: number;
+  // Estimated bandwidth, in bits per second
+  bandwidth?: number;
+  // Bitrate and height of the rendition playing
+  bitrate?: number;
+  height?: number;
+  droppedFrames?: number;
+}
+
+export interface PlaybackAdapter {
+  capabilities: PlaybackCapabilities;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (position: number) => void;
+  // Current position in seconds
+  getPosition: () => number;
+  isPaused: () => boolean;
+  setRate: (rate: number) => void;
+  getRate: () => number;
+  // Subscribe to an event; returns a function that unsubscribes
+  on: <E extends PlaybackEventName>(event: E, handler: PlaybackEvents[E]) => () => void;
+  // Streaming stats, for sources that have them
+  getStats?: () => PlaybackStats;
+  // Stop listening to the source
+  destroy: () => void;
+}
+
+// Players hand their adapter to whoever renders them, and null once they
+// go away
+export type PlaybackAdapterCallback = (adapter: PlaybackAdapter | null) => void;
+
+// Minimal typed event emitter shared by the adapters
+export const createPlaybackEmitter = () => {
+  const handlers = new Map<PlaybackEventName, Set<(...args: unknown[]) => void>>();
+
+  const on = <E extends PlaybackEventName>(event: E, handler: PlaybackEvents[E]) => {
+    const eventHandlers = handlers.get(event) ?? new Set();
+    eventHandlers.add(handler as (...args: unknown[]) => void);
+    handlers.set(event, eventHandlers);
+    return () => {
+      eventHandlers.delete(handler as (...args: unknown[]) => void);
+    };
+  };
+
+  const emit = <E extends PlaybackEventName>(event: E, ...args: Parameters<PlaybackEvents[E]>) => {
+    handlers.get(event)?.forEach(handler => handler(...args));
+  };
+
+  const clear = () => handlers.clear();
+
+  return { on, emit, clear };
+};
@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { formatTime } from '../utils';
+import { useSocket, PlaybackAction, PlaybackActionType, BufferingState, RateLimited } from '../socketContext';
+import {
+  SyncedVideoState,
+  SEEK_THRESHOLD,
+  getExpectedPosition,
+  getDriftCorrection
+} from '../playbackClock';
+import type { PlaybackAdapter } from './types';
+
+// How often drift against the room clock is checked while playing
+const DRIFT_CHECK_INTERVAL = 1000;
+
+// How often the user who last drove playback reports their position
+const HEARTBEAT_INTERVAL = 5000;
+
+// How long "Dana skipped to 1:02:13" style notices stay on screen
+const ACTIVITY_NOTICE_DURATION = 3000;
+
+// Human readable description of a playback action
+const describePlaybackAction = (action: PlaybackAction) => {
+  const name = action.origin.username;
+  if (action.reason === 'buffering') {
+    return action.type === 'pause'
+      ? 'Paused while everyone catches up'
+      : 'Everyone is ready, resuming together';
+  }
+  if (action.reason === 'ready_check') {
+    return action.type === 'pause' ? 'Paused for a ready check' : null;
+  }
+
+  switch (action.type) {
+    case 'play':
+      return `${name} resumed at ${formatTime(action.currentTime)}`;
+    case 'pause':
+      return `${name} paused at ${formatTime(action.currentTime)}`;
+    case 'seek':
+      return `${name} skipped to ${formatTime(action.currentTime)}`;
+    case 'rate':
+      return `${name} set the speed to ${action.playbackRate}x`;
+    default:
+      return null;
+  }
+};
+
+export interface RoomPlaybackState {
+  // Server time at which a scheduled start begins, while counting down
+  countdownUntil: number | null;
+  // "Dana paused at 12:03" style notice about what just happened
+  activityNotice: string | null;
+}
+
+// Keep a player in step with the room: apply the room's playback actions to
+// it, publish the viewer's own play, pause and seek actions, correct drift
+// against the room clock and report when it stalls. Players we can't control
+// are left alone, and so is every player while `enabled` is false.
+export const useRoomPlayback = (adapter: PlaybackAdapter | null, enabled = true): RoomPlaybackState => {
+  const {
+    transport,
+    sendPlaybackAction,
+    roomId,
+    getServerTime,
+    userId,
+    canControl,
+    videoState,
+    sendBufferingState,
+    seekRequest
+  } = useSocket();
+  const [activityNotice, setActivityNotice] = useState<string | null>(null);
+  const [countdownUntil, setCountdownUntil] = useState<number | null>(null);
+  const scheduledPlayRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Last buffering state reported, so each transition is only sent once
+  const bufferingStateRef = useRef<BufferingState>('canplay');
+  // Last known room clock state, used for drift correction
+  const syncStateRef = useRef<SyncedVideoState | null>(null);
+  // Sequence number of the last playback action applied, to drop stale updates
+  const lastSeqRef = useRef(0);
+  // Whether we were the last to act, in which case we send heartbeats
+  const isDrivingRef = useRef(false);
+  // Last seek request carried out; one made before we mounted was meant for
+  // an earlier player
+  const handledSeekRef = useRef(seekRequest);
+  // Latest room values, read from event handlers and timers, so the callbacks
+  // below never act on a room or transport we've since left
+  const roomRef = useRef({ userId, canControl, videoState, getServerTime, sendPlaybackAction, sendBufferingState });
+  roomRef.current = { userId, canControl, videoState, getServerTime, sendPlaybackAction, sendBufferingState };
+
+  // The player we keep in sync, if any
+  const player = enabled && roomId && adapter?.capabilities.control ? adapter : null;
+
+  const cancelScheduledPlay = useCallback(() => {
+    if (scheduledPlayRef.current) {
+      clearTimeout(scheduledPlayRef.current);
+      scheduledPlayRef.current = null;
+    }
+    setCountdownUntil(null);
+  }, []);
+
+  // Bring the player in line with a state received from the server
+  const applySyncedState = useCallback((target: PlaybackAdapter, state: SyncedVideoState, forceSeek = false) => {
+    const serverNow = roomRef.current.getServerTime();
+    const synced = {
+      ...state,
+      playbackRate: state.playbackRate || 1,
+      serverTime: state.serverTime || serverNow
+    };
+    syncStateRef.current = synced;
+    cancelScheduledPlay();
+
+    // Playback is scheduled to start later: hold at the start position and
+    // begin at the same instant as everyone else
+    if (state.isPlaying && state.startsAt && state.startsAt > serverNow) {
+      target.seek(state.currentTime);
+      target.setRate(synced.playbackRate);
+      target.pause();
+
+      setCountdownUntil(state.startsAt);
+      scheduledPlayRef.current = setTimeout(() => {
+        scheduledPlayRef.current = null;
+        setCountdownUntil(null);
+        if (syncStateRef.current) {
+          applySyncedState(target, syncStateRef.current);
+        }
+      }, state.startsAt - serverNow);
+      return;
+    }
+
+    const expected = getExpectedPosition(synced, serverNow);
+    if (forceSeek || Math.abs(target.getPosition() - expected) >= SEEK_THRESHOLD) {
+      target.seek(expected);
+    }
+    target.setRate(synced.playbackRate);
+
+    if (state.isPlaying && target.isPaused()) {
+      target.play().catch(e => console.error('Error playing video:', e));
+    } else if (!state.isPlaying && !target.isPaused()) {
+      target.pause();
+    }
+  }, [cancelScheduledPlay]);
+
+  // Send our own playback action and use it as the new clock anchor locally
+  const publishPlaybackAction = useCallback((
+    target: PlaybackAdapter,
+    type: PlaybackActionType,
+    currentTime: number,
+    playing: boolean
+  ) => {
+    const room = roomRef.current;
+    // Without control, snap back to the room's state instead
+    if (!room.canControl) {
+      if (syncStateRef.current) {
+        applySyncedState(target, syncStateRef.current, true);
+      }
+      return;
+    }
+
+    const playbackRate = syncStateRef.current?.playbackRate || 1;
+    syncStateRef.current = {
+      currentTime,
+      isPlaying: playing,
+      playbackRate,
+      serverTime: room.getServerTime()
+    };
+    isDrivingRef.current = true;
+    room.sendPlaybackAction({ type, currentTime, playbackRate });
+  }, [applySyncedState]);
+
+  // Catch up with the room as soon as there's a player. Later changes to the
+  // room's state arrive as playback actions.
+  useEffect(() => {
+    const state = roomRef.current.videoState;
+    if (player && state) {
+      applySyncedState(player, state);
+    }
+    return cancelScheduledPlay;
+  }, [player, applySyncedState, cancelScheduledPlay]);
+
+  // Listen for playback actions from the server
+  useEffect(() => {
+    if (!transport || !player) return;
+
+    const handlePlaybackAction = (action: PlaybackAction) => {
+      // Ignore anything older than what we've already applied
+      if (action.seq <= lastSeqRef.current) return;
+      lastSeqRef.current = action.seq;
+
+      // Our own action echoed back: we're already in that state
+      if (action.origin.userId === roomRef.current.userId) {
+        syncStateRef.current = action;
+        return;
+      }
+
+      isDrivingRef.current = false;
+
+      // Heartbeats only move the clock anchor; drift correction does the rest
+      if (action.type === 'heartbeat') {
+        syncStateRef.current = action;
+        return;
+      }
+
+      applySyncedState(player, action, action.type === 'seek');
+
+      const notice = describePlaybackAction(action);
+      if (notice) {
+        setActivityNotice(notice);
+      }
+    };
+
+    // Also listen for initial room state when joining
+    const handleRoomState = ({ videoState: state, playbackSeq }: { videoState: SyncedVideoState | null; playbackSeq: number }) => {
+      if (state) {
+        lastSeqRef.current = playbackSeq;
+        applySyncedState(player, state);
+      }
+    };
+
+    // The server refused our action, so go back to the room's state
+    const handleControlDenied = () => {
+      isDrivingRef.current = false;
+      if (syncStateRef.current) {
+        applySyncedState(player, syncStateRef.current, true);
+      }
+    };
+
+    // Too many actions too quickly: the server dropped this one
+    const handleRateLimited = ({ action, error }: RateLimited) => {
+      if (action !== 'playback_action' && action !== 'video_state_update') return;
+      handleControlDenied();
+      setActivityNotice(error);
+    };
+
+    const unsubscribers = [
+      transport.on('playback_action', handlePlaybackAction),
+      transport.on('room_state', handleRoomState),
+      transport.on('control_denied', handleControlDenied),
+      transport.on('rate_limited', handleRateLimited)
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [transport, player, applySyncedState]);
+
+  // Publish what the viewer does with the player, and tell the room when it
+  // stalls or can play again, for "wait for everyone"
+  useEffect(() => {
+    if (!player) return;
+
+    const reportBufferingState = (state: BufferingState) => {
+      if (bufferingStateRef.current === state) return;
+      bufferingStateRef.current = state;
+      roomRef.current.sendBufferingState(state);
+    };
+
+    const unsubscribers = [
+      player.on('play', (position) => publishPlaybackAction(player, 'play', position, true)),
+      player.on('pause', (position) => publishPlaybackAction(player, 'pause', position, false)),
+      player.on('seek', (position) => publishPlaybackAction(player, 'seek', position, !player.isPaused())),
+      player.on('buffering', reportBufferingState)
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [player, publishPlaybackAction]);
+
+  // While we're driving playback, report our position so the room clock
+  // follows what we actually see
+  useEffect(() => {
+    if (!player) return;
+
+    const interval = setInterval(() => {
+      if (player.isPaused() || !isDrivingRef.current) return;
+
+      roomRef.current.sendPlaybackAction({ type: 'heartbeat', currentTime: player.getPosition() });
+    }, HEARTBEAT_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [player]);
+
+  // Keep playback in line with the room clock: nudge the playback rate for
+  // small drift, if the player lets us, and only seek when the gap is large
+  useEffect(() => {
+    if (!player) return;
+
+    const interval = setInterval(() => {
+      const state = syncStateRef.current;
+      if (!state || !state.isPlaying || player.isPaused()) return;
+
+      const expected = getExpectedPosition(state, roomRef.current.getServerTime());
+      const correction = getDriftCorrection(player.getPosition(), expected, state.playbackRate);
+
+      if ('seekTo' in correction) {
+        player.seek(correction.seekTo);
+      } else if (player.capabilities.rate && Math.abs(player.getRate() - correction.playbackRate) > 0.001) {
+        player.setRate(correction.playbackRate);
+      }
+    }, DRIFT_CHECK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [player]);
+
+  // Seek the room when asked to from outside the player, e.g. from a chat
+  // timestamp
+  useEffect(() => {
+    if (!seekRequest || seekRequest === handledSeekRef.current || !player) return;
+    handledSeekRef.current = seekRequest;
+
+    player.seek(seekRequest.position);
+    publishPlaybackAction(player, 'seek', seekRequest.position, !player.isPaused());
+  }, [seekRequest, player, publishPlaybackAction]);
+
+  // Clear the activity notice after a few seconds
+  useEffect(() => {
+    if (!activityNotice) return;
+
+    const timeout = setTimeout(() => setActivityNotice(null), ACTIVITY_NOTICE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [activityNotice]);
+
+  return { countdownUntil, activityNotice };
+};
@@ -0,0 +1,134 @@
+/**
+ * Client side of the server-authoritative playback clock.
+ *
+ * The sync server anchors each room's playback at a server timestamp. Clients
+ * estimate their offset from the server clock with NTP-style ping exchanges and
+ * use it to work out where playback should be right now, correcting small drift
+ * by nudging the playback rate and only seeking when the gap is large.
+ */
+import type { Socket } from 'socket.io-client';
+import type { ClientToServerEvents, ServerToClientEvents, VideoState } from '../../shared/protocol';
+
+// Playback state as broadcast by the sync server
+export type SyncedVideoState = VideoState;
+
+type SyncSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export interface ClockSample {
+  offset: number;
+  roundTrip: number;
+}
+
+// Drift (in seconds) below which playback is left alone
+export const DRIFT_TOLERANCE = 0.15;
+
+// Drift (in seconds) above which we seek instead of adjusting the rate
+export const SEEK_THRESHOLD = 1;
+
+// Maximum relative change applied to the playback rate while catching up
+const MAX_RATE_ADJUSTMENT = 0.05;
+
+/**
+ * Performs a single ping exchange with the server.
+ *
+ * @param socket The connected Socket.IO client
+ * @returns The estimated clock offset (server - client) and round trip in ms
+ */
+export const requestClockSample = (socket: SyncSocket, timeoutMs = 2000): Promise<ClockSample> => {
+  return new Promise((resolve, reject) => {
+    const sentAt = Date.now();
+
+    socket.timeout(timeoutMs).emit('time_sync', sentAt, (err, response) => {
+      if (err || !response) {
+        reject(err || new Error('No time sync response'));
+        return;
+      }
+
+      const receivedAt = Date.now();
+      const roundTrip = receivedAt - sentAt;
+
+      // Assume the server read its clock half way through the round trip
+      resolve({
+        offset: response.serverTime - (sentAt + roundTrip / 2),
+        roundTrip
+      });
+    });
+  });
+};
+
+/**
+ * Estimates the offset between the local and server clocks.
+ *
+ * Several samples are taken and the one with the shortest round trip wins,
+ * since it has the least room for asymmetric network delay.
+ *
+ * @param socket The connected Socket.IO client
+ * @param samples Number of ping exchanges to perform
+ * @returns The offset in ms to add to Date.now() to get server time
+ */
+export const measureClockOffset = async (socket: SyncSocket, samples = 5): Promise<number> => {
+  let best: ClockSample | null = null;
+
+  for (let i = 0; i < samples; i++) {
+    try {
+      const sample = await requestClockSample(socket);
+      if (!best || sample.roundTrip < best.roundTrip) {
+        best = sample;
+      }
+    } catch (error) {
+      console.warn('Clock sync sample failed:', error);
+    }
+  }
+
+  if (!best) {
+    throw new Error('Unable to measure clock offset');
+  }
+
+  return best.offset;
+};
+
+/**
+ * Works out where playback should be at the given server time.
+ *
+ * @param state The last state received from the server
+ * @param serverNow The current server time in ms
+ * @returns The expected position in seconds
+ */
+export const getExpectedPosition = (state: SyncedVideoState, serverNow: number): number => {
+  if (!state.isPlaying) {
+    return state.currentTime;
+  }
+
+  // Scheduled playback holds its position until the start time
+  const anchor = state.startsAt && state.startsAt > state.serverTime ? state.startsAt : state.serverTime;
+  const elapsed = Math.max(0, serverNow - anchor) / 1000;
+  return state.currentTime + elapsed * state.playbackRate;
+};
+
+/**
+ * Decides how to correct drift between the local and expected positions.
+ *
+ * @param localPosition Where the local player currently is, in seconds
+ * @param expectedPosition Where the room clock says it should be, in seconds
+ * @param baseRate The room's playback rate
+ * @returns Either a position to seek to or the playback rate to use
+ */
+export const getDriftCorrection = (
+  localPosition: number,
+  expectedPosition: number,
+  baseRate: number
+): { seekTo: number } | { playbackRate: number } => {
+  const drift = localPosition - expectedPosition;
+
+  if (Math.abs(drift) >= SEEK_THRESHOLD) {
+    return { seekTo: expectedPosition };
+  }
+
+  if (Math.abs(drift) <= DRIFT_TOLERANCE) {
+    return { playbackRate: baseRate };
+  }
+
+  // Slow down when ahead, speed up when behind, proportionally to the drift
+  const adjustment = Math.max(-MAX_RATE_ADJUSTMENT, Math.min(MAX_RATE_ADJUSTMENT, -drift * 0.5));
+  return { playbackRate: baseRate * (1 + adjustment) };
+};
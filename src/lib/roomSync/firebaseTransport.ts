@@ -0,0 +1,313 @@
+import { ref, onValue, get } from 'firebase/database';
+import { FunctionsError, httpsCallable } from 'firebase/functions';
+import { database, functions } from '../firebase';
+import { PROTOCOL_VERSION } from '../../../shared/protocol';
+import type { SyncedVideoState } from '../playbackClock';
+import {
+  ChatMessage,
+  ControlMode,
+  PlaybackActionType,
+  RoomControlState,
+  RoomMembership,
+  RoomParticipant,
+  RoomSyncTransport,
+  createRoomSyncEmitter,
+  toChatMessage,
+} from './types';
+
+// A room as the callable functions keep it under `rooms/<roomId>`
+interface FirebaseRoom {
+  ownerId?: string;
+  users?: Record<string, RoomParticipant & { joinedAt: number }>;
+  videoState?: Partial<SyncedVideoState> & {
+    type?: PlaybackActionType;
+    seq?: number;
+    origin?: RoomParticipant;
+  };
+  currentMovie?: string;
+  controlMode?: ControlMode;
+  // Sets of user IDs, as `{ [userId]: true }`
+  cohosts?: Record<string, boolean>;
+  muted?: Record<string, boolean>;
+  // Banned users' names by user ID
+  banned?: Record<string, string>;
+  locked?: boolean;
+  isPrivate?: boolean;
+  hasPassword?: boolean;
+  // Written as an array, but the database may hand it back as an object
+  messages?: Record<string, ChatMessage & { timestamp: number }>;
+}
+
+const toVideoState = (videoState: FirebaseRoom['videoState']): SyncedVideoState => ({
+  currentTime: videoState?.currentTime || 0,
+  isPlaying: !!videoState?.isPlaying,
+  playbackRate: videoState?.playbackRate || 1,
+  serverTime: videoState?.serverTime || 0,
+});
+
+const toRoomControl = (room: FirebaseRoom): RoomControlState => ({
+  ownerId: room.ownerId || null,
+  controlMode: room.controlMode || 'everyone',
+  cohosts: Object.keys(room.cohosts || {}).filter(userId => room.users?.[userId]),
+  users: Object.values(room.users || {})
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .map(({ userId, username }) => ({ userId, username })),
+  isPrivate: !!room.isPrivate,
+  hasPassword: !!room.hasPassword,
+  locked: !!room.locked,
+  muted: Object.keys(room.muted || {}),
+  banned: Object.entries(room.banned || {}).map(([userId, username]) => ({ userId, username })),
+});
+
+// Features only our sync server has
+const unsupported = (feature: string) => () => {
+  console.warn(`${feature} needs the sync server and isn't available with the Firebase room transport`);
+};
+
+// Room sync through the callable functions, watching the room in the
+// Realtime Database
+export const createFirebaseTransport = (): RoomSyncTransport => {
+  const { on, emit } = createRoomSyncEmitter();
+  let membership: RoomMembership | null = null;
+  let connected = false;
+  // Offset between our clock and Firebase's, in ms
+  let serverTimeOffset = 0;
+  let unsubscribeInfo: Array<() => void> = [];
+  let unsubscribeRoom: (() => void) | null = null;
+
+  const call = async <T = { success: boolean }>(name: string, data: Record<string, unknown>) => {
+    const result = await httpsCallable<Record<string, unknown>, T>(functions, name)(data);
+    return result.data;
+  };
+
+  const stopWatchingRoom = () => {
+    unsubscribeRoom?.();
+    unsubscribeRoom = null;
+  };
+
+  // Pass on what changed in the room since the last snapshot
+  const watchRoom = (roomId: string, userId: string) => {
+    let initial = true;
+    let lastSeq = 0;
+    let lastMovie: string | null = null;
+    let lastControl = '';
+    const seenMessageIds = new Set<string>();
+
+    unsubscribeRoom = onValue(ref(database, `rooms/${roomId}`), (snapshot) => {
+      const room = snapshot.val() as FirebaseRoom | null;
+      if (!room) return;
+
+      const messages = Object.values(room.messages || {}).map(toChatMessage);
+      const newMessages = messages.filter(message => !seenMessageIds.has(message.id));
+      newMessages.forEach(message => seenMessageIds.add(message.id));
+
+      const control = toRoomControl(room);
+      const controlChanged = JSON.stringify(control) !== lastControl;
+      lastControl = JSON.stringify(control);
+
+      const seq = room.videoState?.seq || 0;
+      const currentMovie = room.currentMovie || null;
+
+      if (initial) {
+        initial = false;
+        lastSeq = seq;
+        lastMovie = currentMovie;
+        emit('room_state', {
+          roomId,
+          userId,
+          videoState: toVideoState(room.videoState),
+          playbackSeq: seq,
+          currentMovie,
+          messages,
+        });
+        emit('room_control', control);
+        return;
+      }
+
+      if (controlChanged) {
+        emit('room_control', control);
+      }
+
+      const origin = room.videoState?.origin || { userId: '', username: '' };
+
+      if (currentMovie && currentMovie !== lastMovie) {
+        lastMovie = currentMovie;
+        emit('movie_selected', { movieId: currentMovie, origin });
+      }
+
+      if (seq > lastSeq) {
+        lastSeq = seq;
+        emit('playback_action', {
+          ...toVideoState(room.videoState),
+          type: room.videoState?.type || 'seek',
+          seq,
+          origin,
+        });
+      }
+
+      newMessages.forEach(message => emit('chat_message', message));
+    }, async (error) => {
+      // We can't read the room once we're out of it. If the host took us out,
+      // they left us a note saying why.
+      const removed = await get(ref(database, `rooms/${roomId}/removed/${userId}`)).catch(() => null);
+      const reason = removed?.val();
+      if (reason === 'kicked' || reason === 'banned') {
+        if (membership?.roomId === roomId) {
+          membership = null;
+        }
+        emit('removed_from_room', { roomId, reason });
+        return;
+      }
+      console.error(`Error watching room ${roomId}:`, error);
+    });
+  };
+
+  const join = async (newMembership: RoomMembership) => {
+    stopWatchingRoom();
+    membership = newMembership;
+    const { roomId, username, userId, access } = newMembership;
+
+    try {
+      await call('handleRoomJoin', { roomId, username, userId, ...access });
+      watchRoom(roomId, userId);
+    } catch (error) {
+      console.error('Error joining room:', error);
+      membership = null;
+      // Private rooms say whether a password would let us in
+      const details = (error as FunctionsError).details as { passwordRequired?: boolean } | undefined;
+      emit('join_denied', {
+        roomId,
+        error: error instanceof Error ? error.message : 'Failed to join room',
+        passwordRequired: !!details?.passwordRequired,
+      });
+    }
+  };
+
+  const leave = async () => {
+    if (!membership) return;
+    const { roomId, userId } = membership;
+    membership = null;
+    stopWatchingRoom();
+
+    try {
+      await call('handleRoomLeave', { roomId, userId });
+    } catch (error) {
+      console.error('Error leaving room:', error);
+    }
+  };
+
+  const sendPlaybackAction: RoomSyncTransport['sendPlaybackAction'] = async (action) => {
+    if (!membership) return;
+
+    try {
+      await call('updateVideoState', { roomId: membership.roomId, userId: membership.userId, ...action });
+    } catch (error) {
+      console.error('Error sending playback action:', error);
+      emit('control_denied', { action: 'playback_action', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const sendChatMessage = async (text: string) => {
+    if (!membership) return;
+
+    try {
+      await call('sendChatMessage', {
+        roomId: membership.roomId,
+        userId: membership.userId,
+        text,
+        user: membership.username
+      });
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      emit('control_denied', { action: 'chat_message', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  // Call a host-only function on our room, passing on why if we weren't
+  // allowed. `action` names it as the sync server's event would.
+  const callHostFunction = async (name: string, action: string, data: Record<string, unknown>) => {
+    if (!membership) return;
+
+    try {
+      await call(name, { roomId: membership.roomId, ...data });
+    } catch (error) {
+      console.error(`Error calling ${name}:`, error);
+      emit('control_denied', { action, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const createInvite = async () => {
+    if (!membership) return undefined;
+
+    try {
+      const { token } = await call<{ token: string | null }>('createInvite', { roomId: membership.roomId });
+      return token;
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      return undefined;
+    }
+  };
+
+  const selectMovie = async (movieId: string) => {
+    if (!membership) return false;
+
+    try {
+      const { success } = await call('selectMovie', { roomId: membership.roomId, movieId });
+      return success;
+    } catch (error) {
+      console.error('Error selecting movie:', error);
+      return false;
+    }
+  };
+
+  return {
+    connect: () => {
+      unsubscribeInfo = [
+        onValue(ref(database, '.info/connected'), (snapshot) => {
+          connected = snapshot.val() === true;
+          emit('connection', connected);
+          // The callable functions have only some of the optional features
+          if (connected) {
+            emit('server_info', {
+              protocolVersion: PROTOCOL_VERSION,
+              features: ['host_controls', 'private_rooms', 'moderation'],
+            });
+          }
+        }),
+        onValue(ref(database, '.info/serverTimeOffset'), (snapshot) => {
+          serverTimeOffset = snapshot.val() || 0;
+        }),
+      ];
+    },
+    disconnect: () => {
+      leave();
+      unsubscribeInfo.forEach(unsubscribe => unsubscribe());
+      unsubscribeInfo = [];
+    },
+    isConnected: () => connected,
+    getServerTime: () => Date.now() + serverTimeOffset,
+    on,
+    join,
+    leave,
+    sendPlaybackAction,
+    sendChatMessage,
+    // Firebase rooms hand us their whole chat as we join
+    loadMessages: async () => ({ messages: [], hasMore: false }),
+    selectMovie,
+    createInvite,
+    sendBufferingState: () => {},
+    setWaitForAll: unsupported('Waiting for everyone'),
+    startReadyCheck: unsupported('Ready checks'),
+    respondToReadyCheck: unsupported('Ready checks'),
+    cancelReadyCheck: unsupported('Ready checks'),
+    setControlMode: (mode) => callHostFunction('setControlMode', 'set_control_mode', { mode }),
+    setCohost: (userId, enabled) => callHostFunction('setCohost', 'set_cohost', { targetUserId: userId, enabled }),
+    transferHost: (userId) => callHostFunction('transferHost', 'transfer_host', { targetUserId: userId }),
+    setRoomPrivacy: (isPrivate, password) => callHostFunction('setRoomPrivacy', 'set_room_privacy', { isPrivate, password }),
+    kickUser: (userId) => callHostFunction('kickUser', 'kick_user', { targetUserId: userId }),
+    banUser: (userId, banned) => callHostFunction('banUser', 'ban_user', { targetUserId: userId, banned }),
+    muteUser: (userId, muted) => callHostFunction('muteUser', 'mute_user', { targetUserId: userId, muted }),
+    lockRoom: (locked) => callHostFunction('lockRoom', 'lock_room', { locked }),
+    setSubtitleOffset: unsupported('Sharing subtitle timing'),
+  };
+};
@@ -0,0 +1,18 @@
+import { createSocketTransport } from './socketTransport';
+import { createFirebaseTransport } from './firebaseTransport';
+import type { RoomSyncTransport, RoomSyncTransportOptions } from './types';
+
+export * from './types';
+
+export type RoomSyncTransportKind = 'socket' | 'firebase';
+
+// Transport to use, from VITE_ROOM_TRANSPORT: our Socket.IO sync server
+// (the default) or Firebase
+export const roomTransportKind: RoomSyncTransportKind =
+  import.meta.env.VITE_ROOM_TRANSPORT === 'firebase' ? 'firebase' : 'socket';
+
+export const createRoomSyncTransport = (options: RoomSyncTransportOptions): RoomSyncTransport => {
+  return roomTransportKind === 'firebase'
+    ? createFirebaseTransport()
+    : createSocketTransport(options);
+};
@@ -0,0 +1,381 @@
+import { io, Socket } from 'socket.io-client';
+import { PROTOCOL_FEATURES, PROTOCOL_VERSION } from '../../../shared/protocol';
+import type {
+  ClientHandshake,
+  ClientToServerEvents,
+  ReloadRequired,
+  RequestResult,
+  RoomUsersPayload,
+  ServerToClientEvents,
+} from '../../../shared/protocol';
+import { measureClockOffset } from '../playbackClock';
+import {
+  ControlMode,
+  RoomJoinState,
+  RoomMembership,
+  RoomSyncTransport,
+  RoomSyncTransportOptions,
+  createRoomSyncEmitter,
+  toChatMessage,
+} from './types';
+
+// Server URL from environment variables
+const serverUrl = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
+
+// How often the clock offset is re-measured while connected
+const CLOCK_SYNC_INTERVAL = 30000;
+
+// How long we wait for the server to acknowledge a request before resending
+// it, and how many times we resend it
+const ACK_TIMEOUT = 5000;
+const MAX_RETRIES = 3;
+
+// Requests the server acknowledges, which we resend until it does
+type RoomRequestEvent = 'playback_action' | 'select_movie' | 'chat_message';
+
+// Room events we only send once
+type RoomCommandEvent = Exclude<
+  keyof ClientToServerEvents,
+  RoomRequestEvent | 'time_sync' | 'join_room' | 'create_invite' | 'load_messages'
+>;
+
+// Payload of a room event, apart from the room ID and request ID we add
+type RoomEventPayload<E extends keyof ClientToServerEvents> =
+  Omit<Parameters<ClientToServerEvents[E]>[0], 'roomId' | 'requestId'>;
+
+// ID the server recognises resent requests by
+const createRequestId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+const toRoomJoinState = (roomId: string, userId: string, state: RoomUsersPayload): RoomJoinState => ({
+  roomId,
+  userId,
+  videoState: state.videoState || null,
+  playbackSeq: state.playbackSeq || 0,
+  currentMovie: state.currentMovie || null,
+  messages: (state.messages || []).map(toChatMessage),
+  hasMoreMessages: !!state.hasMoreMessages,
+  buffering: state.buffering,
+  readyCheck: state.readyCheck || null,
+  subtitleOffset: state.subtitleOffset ?? null,
+});
+
+// Room sync through our own Socket.IO server. Everything goes over the one
+// Socket.IO connection: a WebSocket when possible, and HTTP long-polling only
+// when a WebSocket can't be opened. Every action carries a request ID and is
+// resent until the server acknowledges it; the server handles each request ID
+// once, so nothing is applied or broadcast twice.
+export const createSocketTransport = ({ getIdToken }: RoomSyncTransportOptions): RoomSyncTransport => {
+  const { on, emit } = createRoomSyncEmitter();
+  let membership: RoomMembership | null = null;
+  // Token from the server that lets us take back our seat after a reconnect
+  let sessionToken: string | null = null;
+  let clockOffset = 0;
+  let clockSyncTimer: ReturnType<typeof setInterval> | undefined;
+  // Whether we're in the room on the current connection, and the requests
+  // waiting until we are
+  let inRoom = false;
+  let roomWaiters: Array<() => void> = [];
+
+  const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(serverUrl, {
+    autoConnect: false,
+    transports: ['websocket', 'polling'],
+    // Fall back to long-polling if the WebSocket can't connect
+    tryAllTransports: true,
+    withCredentials: true,
+    // Prove who we are with our Firebase ID token, and tell the server which
+    // version of the protocol we speak
+    auth: (cb) => {
+      getIdToken().then(token => {
+        const handshake: ClientHandshake = { protocolVersion: PROTOCOL_VERSION, features: PROTOCOL_FEATURES };
+        if (token) {
+          handshake.token = token;
+        }
+        cb(handshake);
+      });
+    },
+    reconnection: true,
+    reconnectionAttempts: 5,
+    reconnectionDelay: 1000,
+  });
+
+  // Socket.IO's types can't follow a generic event name, so the typed
+  // helpers below emit through an untyped view of the socket
+  const untypedSocket = socket as unknown as Socket;
+
+  // Keep an estimate of the offset between our clock and the server's
+  const syncClock = () => {
+    measureClockOffset(socket)
+      .then(offset => {
+        clockOffset = offset;
+      })
+      .catch(error => console.warn('Clock sync failed:', error));
+  };
+
+  const setInRoom = (value: boolean) => {
+    inRoom = value;
+    if (value) {
+      roomWaiters.forEach(resolve => resolve());
+      roomWaiters = [];
+    }
+  };
+
+  // Wait until we're (back) in the room, for at most `timeout` ms
+  const waitForRoom = (timeout: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, timeout);
+    roomWaiters.push(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+  // Send a request to the room and wait for the server to acknowledge it,
+  // resending it (under the same request ID) if it doesn't. While we're
+  // disconnected, requests wait until we've rejoined the room.
+  const request = async <E extends RoomRequestEvent>(
+    event: E,
+    payload: RoomEventPayload<E> & { roomId: string }
+  ): Promise<RequestResult> => {
+    const requestId = createRequestId();
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      if (!inRoom) {
+        await waitForRoom(ACK_TIMEOUT);
+        if (!inRoom) continue;
+      }
+      try {
+        return await untypedSocket.timeout(ACK_TIMEOUT).emitWithAck(event, { ...payload, requestId });
+      } catch {
+        console.warn(`No answer to ${event} (${requestId}), attempt ${attempt + 1}`);
+      }
+    }
+    return { error: 'The server did not respond' };
+  };
+
+  // Joins aren't resent: we join again each time the socket connects
+  const joinOverSocket = () => {
+    if (!membership) return;
+    socket.emit('join_room', {
+      requestId: createRequestId(),
+      roomId: membership.roomId,
+      username: membership.username,
+      userId: membership.userId,
+      sessionToken,
+      ...membership.access
+    });
+  };
+
+  // Emit a room event, if we're in a room and connected
+  const emitToRoom = <E extends RoomCommandEvent>(event: E, payload: RoomEventPayload<E>) => {
+    if (membership && socket.connected) {
+      untypedSocket.emit(event, { roomId: membership.roomId, ...payload });
+    }
+  };
+
+  // Forget the room once the server has turned us away
+  const clearMembership = () => {
+    membership = null;
+    sessionToken = null;
+    setInRoom(false);
+  };
+
+  socket.on('connect', () => {
+    console.log('Socket connected:', socket.id);
+    emit('connection', true);
+    syncClock();
+    clearInterval(clockSyncTimer);
+    clockSyncTimer = setInterval(syncClock, CLOCK_SYNC_INTERVAL);
+
+    // Join (or after a dropped connection, resume our session in) the room,
+    // keeping our identity, seat and host role
+    if (membership) {
+      console.log('Socket connected, joining room:', membership.roomId);
+      joinOverSocket();
+    }
+  });
+
+  socket.on('disconnect', () => {
+    console.log('Socket disconnected');
+    setInRoom(false);
+    emit('connection', false);
+    clearInterval(clockSyncTimer);
+  });
+
+  socket.on('connect_error', (error) => {
+    // The server turned us away for speaking an older protocol. It won't let
+    // us in until the page has been reloaded.
+    const { data } = error as Error & { data?: Partial<ReloadRequired> };
+    if (data?.reloadRequired) {
+      console.warn(`Server speaks protocol version ${data.protocolVersion}, we speak ${PROTOCOL_VERSION}`);
+      emit('reload_required', error.message);
+      return;
+    }
+    console.error('Socket connection error:', error);
+  });
+
+  socket.on('server_info', (info) => emit('server_info', info));
+
+  socket.on('room_users', (payload) => {
+    if (!membership || !payload.userId) return;
+    if (payload.sessionToken) {
+      sessionToken = payload.sessionToken;
+    }
+    setInRoom(true);
+    emit('room_state', toRoomJoinState(membership.roomId, payload.userId, payload));
+  });
+
+  socket.on('room_control', (control) => emit('room_control', control));
+  socket.on('playback_action', (action) => emit('playback_action', action));
+  socket.on('movie_selected', (selection) => emit('movie_selected', selection));
+  socket.on('buffering_status', (status) => emit('buffering_status', status));
+  socket.on('ready_check', (readyCheck) => emit('ready_check', readyCheck));
+  socket.on('subtitle_offset', (update) => emit('subtitle_offset', update));
+  socket.on('control_denied', (rejected) => emit('control_denied', rejected));
+  socket.on('auth_error', (rejected) => emit('auth_error', rejected));
+  socket.on('rate_limited', (limited) => emit('rate_limited', limited));
+
+  socket.on('chat_message', (message) => emit('chat_message', toChatMessage(message)));
+  // Join and leave notices are chat messages from the system
+  socket.on('user_joined', (message) => emit('chat_message', toChatMessage(message)));
+  socket.on('user_left', (message) => emit('chat_message', toChatMessage(message)));
+
+  // The server dropped an event we sent, which means we don't speak its protocol
+  socket.on('invalid_payload', ({ event, error }) => {
+    console.error(`Server rejected ${event} as invalid:`, error);
+  });
+
+  socket.on('join_denied', (denied) => {
+    clearMembership();
+    emit('join_denied', denied);
+  });
+
+  socket.on('removed_from_room', (removed) => {
+    clearMembership();
+    emit('removed_from_room', removed);
+  });
+
+  // We join, or after a dropped connection resume our session, whenever
+  // the socket connects
+  const join = async (newMembership: RoomMembership) => {
+    membership = newMembership;
+    sessionToken = null;
+    if (socket.connected) {
+      joinOverSocket();
+    }
+  };
+
+  const leave = async () => {
+    if (!membership) return;
+    const { roomId } = membership;
+    const wasInRoom = inRoom;
+    clearMembership();
+
+    // Once disconnected, the server lets our seat go by itself
+    if (wasInRoom && socket.connected) {
+      socket.emit('leave_room', { roomId, requestId: createRequestId() });
+    }
+  };
+
+  // Send an action to the room, reporting it if the server refused it
+  const sendToRoom = async <E extends RoomRequestEvent>(event: E, payload: RoomEventPayload<E>) => {
+    if (!membership) return null;
+
+    const response = await request(event, { roomId: membership.roomId, ...payload });
+    if (response.error) {
+      console.warn(`Server rejected ${event}:`, response.error);
+    }
+    return response;
+  };
+
+  const sendPlaybackAction: RoomSyncTransport['sendPlaybackAction'] = async (action) => {
+    await sendToRoom('playback_action', { ...action });
+  };
+
+  const sendChatMessage = async (text: string) => {
+    if (!membership) return;
+    await sendToRoom('chat_message', { text, user: membership.username });
+  };
+
+  const selectMovie = async (movieId: string): Promise<boolean> => {
+    const response = await sendToRoom('select_movie', { movieId });
+    return !!response?.success;
+  };
+
+  const loadMessages = async (before: number) => {
+    if (!membership || !socket.connected) return null;
+
+    try {
+      const { messages, hasMore, error } = await socket.timeout(ACK_TIMEOUT).emitWithAck('load_messages', {
+        roomId: membership.roomId,
+        before,
+      });
+      if (error) {
+        console.warn('Could not load chat history:', error);
+        return null;
+      }
+      return { messages: (messages || []).map(toChatMessage), hasMore: !!hasMore };
+    } catch (error) {
+      console.error('Error loading chat history:', error);
+      return null;
+    }
+  };
+
+  const createInvite = async () => {
+    if (!membership || !socket.connected) return undefined;
+
+    try {
+      const { token, error } = await socket.timeout(5000).emitWithAck('create_invite', { roomId: membership.roomId });
+      if (error) {
+        console.warn('Could not create invite:', error);
+        return undefined;
+      }
+      return token || null;
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      return undefined;
+    }
+  };
+
+  return {
+    connect: () => {
+      socket.connect();
+    },
+    disconnect: () => {
+      // Make sure to leave any rooms and clean up before disconnecting
+      if (membership && socket.connected) {
+        socket.emit('leave_room', { roomId: membership.roomId });
+      }
+      clearMembership();
+      clearInterval(clockSyncTimer);
+      socket.disconnect();
+    },
+    isConnected: () => socket.connected,
+    getServerTime: () => Date.now() + clockOffset,
+    on,
+    join,
+    leave,
+    sendPlaybackAction,
+    sendChatMessage,
+    loadMessages,
+    selectMovie,
+    sendBufferingState: (state) => emitToRoom('buffering_state', { state }),
+    setWaitForAll: (enabled, quorum) => emitToRoom('set_wait_for_all', { enabled, quorum }),
+    startReadyCheck: () => emitToRoom('start_ready_check', {}),
+    respondToReadyCheck: (ready) => emitToRoom('ready_check_response', { ready }),
+    cancelReadyCheck: () => emitToRoom('cancel_ready_check', {}),
+    setControlMode: (mode: ControlMode) => emitToRoom('set_control_mode', { mode }),
+    setCohost: (userId, enabled) => emitToRoom('set_cohost', { userId, enabled }),
+    transferHost: (userId) => emitToRoom('transfer_host', { userId }),
+    setRoomPrivacy: (isPrivate, password) => emitToRoom('set_room_privacy', { isPrivate, password }),
+    createInvite,
+    kickUser: (userId) => emitToRoom('kick_user', { userId }),
+    banUser: (userId, banned) => emitToRoom('ban_user', { userId, banned }),
+    muteUser: (userId, muted) => emitToRoom('mute_user', { userId, muted }),
+    lockRoom: (locked) => emitToRoom('lock_room', { locked }),
+    setSubtitleOffset: (offset) => emitToRoom('set_subtitle_offset', { offset }),
+  };
+};
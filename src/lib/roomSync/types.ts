@@ -0,0 +1,188 @@
+/**
+ * Room sync transports.
+ *
+ * Everything the client knows about a room (who is in it and who holds
+ * control, the movie, chat and playback) comes from a single transport, so
+ * all components see the same state. The Socket.IO transport talks to our sync
+ * server; the Firebase transport uses the callable functions and the Realtime
+ * Database `rooms/` path. Which one is used is set by VITE_ROOM_TRANSPORT.
+ */
+import type { SyncedVideoState } from '../playbackClock';
+import type {
+  BufferingStatus,
+  BufferingState,
+  ChatMessagePayload,
+  ControlMode,
+  JoinDenied,
+  MovieSelection,
+  PlaybackAction,
+  PlaybackActionRequest,
+  RateLimited,
+  ReadyCheckState,
+  RejectedAction,
+  RemovedFromRoom,
+  RoomAccessCredentials,
+  RoomControlState,
+  ServerInfo,
+  SubtitleOffsetUpdate,
+} from '../../../shared/protocol';
+
+// Payloads shared with the sync server are defined by its protocol
+export type {
+  BufferingState,
+  BufferingStatus,
+  ControlMode,
+  JoinDenied,
+  MovieSelection,
+  PlaybackAction,
+  PlaybackActionRequest,
+  PlaybackActionType,
+  ProtocolFeature,
+  RateLimited,
+  ReadyCheckParticipant,
+  ReadyCheckState,
+  RejectedAction,
+  RemovedFromRoom,
+  RoomAccessCredentials,
+  RoomControlState,
+  RoomParticipant,
+  ServerInfo,
+  SubtitleOffsetUpdate,
+} from '../../../shared/protocol';
+
+// Chat message, with its timestamp parsed
+export interface ChatMessage extends Omit<ChatMessagePayload, 'timestamp'> {
+  timestamp: Date;
+}
+
+// The room as we find it when we join (or resume our session in) it
+export interface RoomJoinState {
+  roomId: string;
+  // Our user ID in the room
+  userId: string;
+  videoState: SyncedVideoState | null;
+  playbackSeq: number;
+  currentMovie: string | null;
+  // The room's latest chat messages, and whether there are older ones
+  messages: ChatMessage[];
+  hasMoreMessages?: boolean;
+  buffering?: BufferingStatus;
+  readyCheck?: ReadyCheckState | null;
+  // Subtitle timing shared by the room, if any
+  subtitleOffset?: number | null;
+}
+
+// Older chat messages, oldest first, and whether there are more before them
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+// Events a transport delivers
+export interface RoomSyncEvents {
+  // Whether the transport can currently reach its backend
+  connection: (connected: boolean) => void;
+  // The backend's protocol version and the optional features it has
+  server_info: (info: ServerInfo) => void;
+  // The backend no longer speaks our protocol; only reloading the page helps
+  reload_required: (message: string) => void;
+  room_state: (state: RoomJoinState) => void;
+  room_control: (control: RoomControlState) => void;
+  playback_action: (action: PlaybackAction) => void;
+  movie_selected: (selection: MovieSelection) => void;
+  // Chat messages, including the system's join and leave notices
+  chat_message: (message: ChatMessage) => void;
+  buffering_status: (status: BufferingStatus) => void;
+  ready_check: (readyCheck: ReadyCheckState | null) => void;
+  subtitle_offset: (update: SubtitleOffsetUpdate) => void;
+  join_denied: (denied: JoinDenied) => void;
+  removed_from_room: (removed: RemovedFromRoom) => void;
+  // We lacked the permission for an action
+  control_denied: (rejected: RejectedAction) => void;
+  // The server didn't accept who we said we are
+  auth_error: (rejected: RejectedAction) => void;
+  // We sent too much too quickly, or are muted for flooding the room
+  rate_limited: (limited: RateLimited) => void;
+}
+
+export type RoomSyncEventName = keyof RoomSyncEvents;
+
+// Who is joining which room
+export interface RoomMembership {
+  roomId: string;
+  username: string;
+  userId: string;
+  access: RoomAccessCredentials;
+}
+
+export interface RoomSyncTransport {
+  // Start connecting to the backend
+  connect: () => void;
+  // Leave the current room, if any, and stop syncing
+  disconnect: () => void;
+  isConnected: () => boolean;
+  // Current time on the backend's clock, in ms
+  getServerTime: () => number;
+  // Subscribe to an event; returns a function that unsubscribes
+  on: <E extends RoomSyncEventName>(event: E, handler: RoomSyncEvents[E]) => () => void;
+
+  join: (membership: RoomMembership) => Promise<void>;
+  leave: () => Promise<void>;
+  sendPlaybackAction: (action: PlaybackActionRequest) => Promise<void>;
+  sendChatMessage: (text: string) => Promise<void>;
+  // Page of chat history before the message numbered `before`; null if it
+  // couldn't be loaded
+  loadMessages: (before: number) => Promise<ChatHistoryPage | null>;
+  // Ask to change the room's movie; resolves to whether it was allowed
+  selectMovie: (movieId: string) => Promise<boolean>;
+
+  sendBufferingState: (state: BufferingState) => void;
+  setWaitForAll: (enabled: boolean, quorum?: number) => void;
+  startReadyCheck: () => void;
+  respondToReadyCheck: (ready: boolean) => void;
+  cancelReadyCheck: () => void;
+
+  setControlMode: (mode: ControlMode) => void;
+  setCohost: (userId: string, enabled: boolean) => void;
+  transferHost: (userId: string) => void;
+  setRoomPrivacy: (isPrivate: boolean, password?: string) => void;
+  // Invite token for the room: null if it's public, undefined if none was made
+  createInvite: () => Promise<string | null | undefined>;
+  kickUser: (userId: string) => void;
+  banUser: (userId: string, banned: boolean) => void;
+  muteUser: (userId: string, muted: boolean) => void;
+  lockRoom: (locked: boolean) => void;
+  // Share a subtitle timing with the room; null hands it back to each viewer
+  setSubtitleOffset: (offset: number | null) => void;
+}
+
+export interface RoomSyncTransportOptions {
+  // Current Firebase ID token, sent to prove who we are
+  getIdToken: () => Promise<string | null>;
+}
+
+// Minimal typed event emitter shared by the transports
+export const createRoomSyncEmitter = () => {
+  const handlers = new Map<RoomSyncEventName, Set<(...args: unknown[]) => void>>();
+
+  const on = <E extends RoomSyncEventName>(event: E, handler: RoomSyncEvents[E]) => {
+    const eventHandlers = handlers.get(event) ?? new Set();
+    eventHandlers.add(handler as (...args: unknown[]) => void);
+    handlers.set(event, eventHandlers);
+    return () => {
+      eventHandlers.delete(handler as (...args: unknown[]) => void);
+    };
+  };
+
+  const emit = <E extends RoomSyncEventName>(event: E, ...args: Parameters<RoomSyncEvents[E]>) => {
+    handlers.get(event)?.forEach(handler => handler(...args));
+  };
+
+  return { on, emit };
+};
+
+// Messages arrive with their timestamp serialized
+export const toChatMessage = (message: Omit<ChatMessage, 'timestamp'> & { timestamp: string | number | Date }): ChatMessage => ({
+  ...message,
+  timestamp: message.timestamp instanceof Date ? message.timestamp : new Date(message.timestamp),
+});
@@ -1,47 +1,112 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { getDatabase, ref, onValue, off } from 'firebase/database';
-import app from './firebase';
-import { io, Socket } from 'socket.io-client';
-
-// Video state interface
-export interface VideoState {
-  currentTime: number;
-  isPlaying: boolean;
-  roomId: string;
-}
-
-// Chat message interface
-export interface ChatMessage {
-  id: string;
-  user: string;
-  text: string;
-  timestamp: Date;
-}
-
-// User presence interface
-export interface UserPresence {
-  id: string;
-  username: string;
-  isOnline: boolean;
-}
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { SyncedVideoState } from './playbackClock';
+import { useAuth } from './authContext';
+import { UpgradeBanner } from '../components/UpgradeBanner';
+import {
+  ChatMessage,
+  ControlMode,
+  BufferingState,
+  BufferingStatus,
+  JoinDenied,
+  PlaybackActionRequest,
+  ProtocolFeature,
+  RateLimited,
+  ReadyCheckState,
+  RoomAccessCredentials,
+  RoomControlState,
+  RoomSyncTransport,
+  createRoomSyncTransport,
+} from './roomSync';
 
-// Initialize Firebase database
-const database = getDatabase(app);
-
-// Server URL from environment variables
-const serverUrl = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
+export type {
+  PlaybackActionType,
+  PlaybackActionRequest,
+  PlaybackAction,
+  BufferingState,
+  BufferingStatus,
+  ReadyCheckParticipant,
+  ReadyCheckState,
+  ControlMode,
+  RoomParticipant,
+  RoomControlState,
+  RoomAccessCredentials,
+  JoinDenied,
+  ChatMessage,
+  ProtocolFeature,
+  RateLimited,
+} from './roomSync';
 
 interface SocketContextType {
+  // Whether the room transport can reach its backend
   isConnected: boolean;
+  // Optional features the backend has and we support
+  serverFeatures: ProtocolFeature[];
+  // Set when the backend needs a newer version of the app
+  reloadRequired: string | null;
   roomId: string | null;
-  joinRoom: (roomId: string, username: string) => void;
+  joinRoom: (roomId: string, username: string, access?: RoomAccessCredentials) => void;
+  joinDenied: JoinDenied | null;
+  // Our latest event the server dropped for going over the rate limit, until
+  // we may try again
+  rateLimited: RateLimited | null;
   leaveRoom: () => void;
-  sendVideoState: (videoState: Omit<VideoState, 'roomId'>) => void;
+  sendPlaybackAction: (action: PlaybackActionRequest) => void;
   sendChatMessage: (message: string) => void;
   username: string;
-  socket: Socket | null;
+  // Where room state comes from; components subscribe to its events
+  transport: RoomSyncTransport | null;
+  getServerTime: () => number;
+  userId: string | null;
+  roomControl: RoomControlState | null;
+  canControl: boolean;
+  // The room's chat, movie and latest playback state
+  messages: ChatMessage[];
+  // Whether the room has chat history older than `messages`, and loading it
+  hasMoreMessages: boolean;
+  loadingMessages: boolean;
+  loadOlderMessages: () => Promise<void>;
+  currentMovieId: string | null;
+  videoState: SyncedVideoState | null;
+  selectMovie: (movieId: string) => Promise<boolean>;
+  // Ask the player to seek the room to a position in seconds, e.g. from a chat
+  // timestamp, if we may control playback. Each request is a new object.
+  seekRequest: { position: number } | null;
+  seekRoom: (position: number) => void;
+  setControlMode: (mode: ControlMode) => void;
+  setCohost: (userId: string, enabled: boolean) => void;
+  transferHost: (userId: string) => void;
+  bufferingStatus: BufferingStatus | null;
+  sendBufferingState: (state: BufferingState) => void;
+  setWaitForAll: (enabled: boolean, quorum?: number) => void;
+  readyCheck: ReadyCheckState | null;
+  startReadyCheck: () => void;
+  respondToReadyCheck: (ready: boolean) => void;
+  cancelReadyCheck: () => void;
+  setRoomPrivacy: (isPrivate: boolean, password?: string) => void;
+  createInviteLink: () => Promise<string | null>;
+  kickUser: (userId: string) => void;
+  banUser: (userId: string, banned: boolean) => void;
+  muteUser: (userId: string, muted: boolean) => void;
+  lockRoom: (locked: boolean) => void;
+  // Subtitle timing shared by the room; null while each viewer sets their own
+  subtitleOffset: number | null;
+  setSubtitleOffset: (offset: number | null) => void;
 }
 
+// Whether a user may control playback under the room's current control mode
+export const userCanControl = (control: RoomControlState | null, userId: string | null): boolean => {
+  if (!control || !userId) return false;
+
+  switch (control.controlMode) {
+    case 'everyone':
+      return true;
+    case 'cohosts':
+      return userId === control.ownerId || control.cohosts.includes(userId);
+    default:
+      return userId === control.ownerId;
+  }
+};
+
 const SocketContext = createContext<SocketContextType | undefined>(undefined);
 
 interface SocketProviderProps {
@@ -50,264 +115,273 @@ interface SocketProviderProps {
 
 export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   const [isConnected, setIsConnected] = useState(false);
+  const [serverFeatures, setServerFeatures] = useState<ProtocolFeature[]>([]);
+  const [reloadRequired, setReloadRequired] = useState<string | null>(null);
   const [roomId, setRoomId] = useState<string | null>(null);
   const [username, setUsername] = useState('');
   const [userId, setUserId] = useState<string | null>(null);
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [transport, setTransport] = useState<RoomSyncTransport | null>(null);
+  const [roomControl, setRoomControl] = useState<RoomControlState | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [currentMovieId, setCurrentMovieId] = useState<string | null>(null);
+  const [videoState, setVideoState] = useState<SyncedVideoState | null>(null);
+  const [seekRequest, setSeekRequest] = useState<{ position: number } | null>(null);
+  const [bufferingStatus, setBufferingStatus] = useState<BufferingStatus | null>(null);
+  const [readyCheck, setReadyCheck] = useState<ReadyCheckState | null>(null);
+  const [subtitleOffset, setSubtitleOffset] = useState<number | null>(null);
+  const [joinDenied, setJoinDenied] = useState<JoinDenied | null>(null);
+  const [rateLimited, setRateLimited] = useState<RateLimited | null>(null);
+  const { userId: authUserId, loading: authLoading, getIdToken } = useAuth();
+  // Read by the transport whenever it (re)connects, to send a fresh ID token
+  const getIdTokenRef = useRef(getIdToken);
+  getIdTokenRef.current = getIdToken;
+  // Password or invite for the room we're joining, sent with every join
+  const accessRef = useRef<RoomAccessCredentials>({});
+  // Latest room membership, read when the transport is recreated
+  const membershipRef = useRef({ roomId, username });
+  membershipRef.current = { roomId, username };
 
-  // Initialize socket connection
+  // Forget everything about the room we were in
+  const resetRoomState = () => {
+    setUserId(null);
+    setRoomControl(null);
+    setMessages([]);
+    setHasMoreMessages(false);
+    setCurrentMovieId(null);
+    setVideoState(null);
+    setSeekRequest(null);
+    setBufferingStatus(null);
+    setReadyCheck(null);
+    setSubtitleOffset(null);
+  };
+
+  // Create the room transport once we know who we are, and again whenever
+  // that changes (e.g. a guest signs in)
   useEffect(() => {
-    // Create socket connection
-    const newSocket = io(serverUrl, {
-      transports: ['websocket', 'polling'],
-      withCredentials: true,
-      reconnection: true,
-      reconnectionAttempts: 5,
-      reconnectionDelay: 1000,
-    });
+    if (authLoading) return;
 
-    newSocket.on('connect', () => {
-      console.log('Socket connected:', newSocket.id);
+    const newTransport = createRoomSyncTransport({
+      // Prove who we are with our Firebase ID token
+      getIdToken: () => getIdTokenRef.current(),
     });
 
-    newSocket.on('disconnect', () => {
-      console.log('Socket disconnected');
-    });
+    // Forget the room we tried to join after we were turned away
+    const handleJoinDenied = (denied: JoinDenied) => {
+      console.warn('Not allowed into room:', denied.error);
+      setJoinDenied(denied);
+      setRoomId(null);
+      setUserId(null);
+      setRoomControl(null);
+      setMessages([]);
+      setHasMoreMessages(false);
+      setCurrentMovieId(null);
+      setVideoState(null);
+      setBufferingStatus(null);
+      setReadyCheck(null);
+      setSubtitleOffset(null);
+    };
 
-    newSocket.on('connect_error', (error) => {
-      console.error('Socket connection error:', error);
-      // Fallback to HTTP when socket fails
-    });
+    const unsubscribers = [
+      newTransport.on('connection', setIsConnected),
+      newTransport.on('server_info', ({ features }) => setServerFeatures(features)),
+      newTransport.on('reload_required', setReloadRequired),
+      // Who we are in the room and what it looks like as we join
+      newTransport.on('room_state', (state) => {
+        setUserId(state.userId);
+        setMessages(state.messages);
+        setHasMoreMessages(!!state.hasMoreMessages);
+        setCurrentMovieId(state.currentMovie);
+        setVideoState(state.videoState);
+        if (state.buffering) {
+          setBufferingStatus(state.buffering);
+        }
+        setReadyCheck(state.readyCheck || null);
+        setSubtitleOffset(state.subtitleOffset ?? null);
+      }),
+      newTransport.on('room_control', setRoomControl),
+      newTransport.on('playback_action', setVideoState),
+      newTransport.on('movie_selected', ({ movieId }) => setCurrentMovieId(movieId)),
+      newTransport.on('chat_message', (message) => {
+        // The same message may reach us more than once
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      }),
+      newTransport.on('buffering_status', setBufferingStatus),
+      newTransport.on('ready_check', setReadyCheck),
+      newTransport.on('subtitle_offset', ({ offset }) => setSubtitleOffset(offset)),
+      newTransport.on('join_denied', handleJoinDenied),
+      // The host kicked or banned us
+      newTransport.on('removed_from_room', ({ roomId: fromRoomId, reason }) => {
+        handleJoinDenied({
+          roomId: fromRoomId,
+          error: reason === 'banned' ? 'You have been banned from this room' : 'The host removed you from the room',
+          passwordRequired: false
+        });
+      }),
+      newTransport.on('control_denied', ({ error }) => {
+        console.warn('Room control denied:', error);
+      }),
+      newTransport.on('auth_error', ({ action, error }) => {
+        console.error(`Server rejected ${action}:`, error);
+      }),
+      newTransport.on('rate_limited', (limited) => {
+        console.warn(`Rate limited ${limited.action}:`, limited.error);
+        setRateLimited(limited);
+      }),
+    ];
 
-    setSocket(newSocket);
+    newTransport.connect();
+    setTransport(newTransport);
+
+    // Carry on in the room we were in under our new identity
+    const { roomId: currentRoomId, username: currentUsername } = membershipRef.current;
+    if (currentRoomId) {
+      newTransport.join({ roomId: currentRoomId, username: currentUsername, userId: authUserId, access: accessRef.current });
+    }
 
     return () => {
-      // Make sure to leave any rooms and clean up before disconnecting
-      if (roomId) {
-        newSocket.emit('leave_room', { roomId });
-      }
-      newSocket.disconnect();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      newTransport.disconnect();
+      setTransport(null);
+      setIsConnected(false);
+      setServerFeatures([]);
     };
-  }, []);
+  }, [authLoading, authUserId]);
 
-  // Subscribe to room changes when roomId changes
+  // Forget the rate limit once we may send again
   useEffect(() => {
-    if (!roomId) {
-      setIsConnected(false);
-      return;
-    }
+    if (!rateLimited) return;
 
-    setIsConnected(true);
-    
-    // Set up listener for room changes in Firebase Realtime Database
-    const roomRef = ref(database, `rooms/${roomId}`);
-    onValue(roomRef, (snapshot) => {
-      const roomData = snapshot.val();
-      if (!roomData) {
-        // Room might have been deleted
-        setIsConnected(false);
-        setRoomId(null);
-        return;
-      }
-      
-      // Room exists, we're connected
-      setIsConnected(true);
-    });
+    const timeout = setTimeout(() => setRateLimited(null), rateLimited.retryAfter);
+    return () => clearTimeout(timeout);
+  }, [rateLimited]);
+
+  const joinRoom = (newRoomId: string, newUsername: string, access: RoomAccessCredentials = {}) => {
+    accessRef.current = access;
+    setJoinDenied(null);
+    resetRoomState();
+    setRoomId(newRoomId);
+    setUsername(newUsername);
+
+    // Without a transport yet, we join as soon as there is one
+    transport?.join({ roomId: newRoomId, username: newUsername, userId: authUserId, access });
+  };
+
+  const leaveRoom = () => {
+    transport?.leave();
+    setRoomId(null);
+    resetRoomState();
+  };
+
+  const sendPlaybackAction = (action: PlaybackActionRequest) => {
+    transport?.sendPlaybackAction(action);
+  };
 
-    // Join room via socket if available
-    if (socket && socket.connected) {
-      socket.emit('join_room', { roomId, username });
+  const sendChatMessage = (message: string) => {
+    if (username) {
+      transport?.sendChatMessage(message);
     }
+  };
 
-    // Clean up listener
-    return () => {
-      off(roomRef);
-      // Leave room via socket if available
-      if (socket && socket.connected && roomId) {
-        socket.emit('leave_room', { roomId });
-      }
-    };
-  }, [roomId, username, socket]);
+  // Load the page of chat history before the oldest message we have
+  const loadOlderMessages = async () => {
+    const oldest = messages.find(message => message.seq !== undefined);
+    if (!transport || !hasMoreMessages || loadingMessages || !oldest?.seq) return;
 
-  const joinRoom = async (newRoomId: string, newUsername: string) => {
+    setLoadingMessages(true);
     try {
-      setRoomId(newRoomId);
-      setUsername(newUsername);
-      
-      // Try REST API first
-      const endpoint = `${serverUrl}/api/room/join`;
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        },
-        body: JSON.stringify({
-          roomId: newRoomId,
-          username: newUsername
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to join room');
-      }
-      
-      const result = await response.json();
-      
-      // Store the userId from the server
-      if (result.userId) {
-        setUserId(result.userId);
-      }
-      
-      // Also try to join via socket if available
-      if (socket && socket.connected) {
-        socket.emit('join_room', { roomId: newRoomId, username: newUsername });
-      }
-      
-      setIsConnected(true);
-      console.log('Joined room:', result);
-    } catch (error) {
-      console.error('Error joining room:', error);
-      // Try socket-only approach as fallback
-      if (socket && socket.connected) {
-        socket.emit('join_room', { roomId: newRoomId, username: newUsername });
-        setIsConnected(true);
-      } else {
-        setIsConnected(false);
+      const page = await transport.loadMessages(oldest.seq);
+      if (page) {
+        setMessages(prev => [...page.messages.filter(message => !prev.some(m => m.id === message.id)), ...prev]);
+        setHasMoreMessages(page.hasMore);
       }
+    } finally {
+      setLoadingMessages(false);
     }
   };
 
-  const leaveRoom = async () => {
-    if (roomId) {
-      try {
-        // Call local server to leave room with correct endpoint
-        const endpoint = `${serverUrl}/api/room/leave`;
-        await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            roomId,
-            userId: userId || undefined,
-            username: username  // Always include the username for better identification
-          })
-        });
-        
-        // Also try to leave via socket if available
-        if (socket && socket.connected) {
-          socket.emit('leave_room', { roomId, username });
-        }
-        
-        setRoomId(null);
-        setUserId(null);
-        setIsConnected(false);
-      } catch (error) {
-        console.error('Error leaving room:', error);
-        // Try socket-only approach as fallback
-        if (socket && socket.connected) {
-          socket.emit('leave_room', { roomId, username });
-          setRoomId(null);
-          setUserId(null);
-          setIsConnected(false);
-        }
-      }
-    }
+  // Ask to change the room's movie; resolves to whether it was allowed
+  const selectMovie = async (movieId: string): Promise<boolean> => {
+    return transport ? transport.selectMovie(movieId) : false;
   };
 
-  const sendVideoState = async (videoState: Omit<VideoState, 'roomId'>) => {
-    if (roomId) {
-      try {
-        // Call local server to update video state with correct endpoint
-        const endpoint = `${serverUrl}/api/room/video-state`;
-        await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            roomId,
-            ...videoState
-          })
-        });
-        
-        // Also try to update via socket if available
-        if (socket && socket.connected) {
-          socket.emit('video_state_update', {
-            roomId,
-            ...videoState
-          });
-        }
-      } catch (error) {
-        console.error('Error updating video state:', error);
-        // Try socket-only approach as fallback
-        if (socket && socket.connected) {
-          socket.emit('video_state_update', {
-            roomId,
-            ...videoState
-          });
-        }
-      }
+  const canControl = userCanControl(roomControl, userId);
+
+  const seekRoom = (position: number) => {
+    if (roomId && canControl) {
+      setSeekRequest({ position });
     }
   };
 
-  const sendChatMessage = async (message: string) => {
-    if (roomId && username) {
-      try {
-        // If socket is connected, prefer it over HTTP
-        if (socket && socket.connected) {
-          socket.emit('chat_message', {
-            roomId,
-            text: message,
-            user: username,
-            timestamp: new Date()
-          });
-        } else {
-          // Fallback to HTTP API only if socket not available
-          const endpoint = `${serverUrl}/api/room/chat`;
-          await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              roomId,
-              text: message,
-              user: username
-            })
-          });
-        }
-      } catch (error) {
-        console.error('Error sending chat message:', error);
-        // Try socket as fallback if HTTP failed
-        if (socket && socket.connected) {
-          socket.emit('chat_message', {
-            roomId,
-            text: message,
-            user: username,
-            timestamp: new Date()
-          });
-        }
-      }
+  // Link others can join the room with, carrying an invite if it's private
+  const createInviteLink = async (): Promise<string | null> => {
+    if (!roomId || !transport) return null;
+
+    const token = await transport.createInvite();
+    if (token === undefined) return null;
+
+    const url = new URL(`/room/${encodeURIComponent(roomId)}`, window.location.origin);
+    if (token) {
+      url.searchParams.set('invite', token);
     }
+    return url.toString();
   };
 
+  // Current time on the room's clock, in ms
+  const getServerTime = () => transport ? transport.getServerTime() : Date.now();
+
+  const noop = () => {};
+
   return (
     <SocketContext.Provider
       value={{
         isConnected,
+        serverFeatures,
+        reloadRequired,
         roomId,
         joinRoom,
         leaveRoom,
-        sendVideoState,
+        sendPlaybackAction,
         sendChatMessage,
         username,
-        socket,
+        transport,
+        getServerTime,
+        userId,
+        roomControl,
+        canControl,
+        messages,
+        hasMoreMessages,
+        loadingMessages,
+        loadOlderMessages,
+        currentMovieId,
+        videoState,
+        selectMovie,
+        seekRequest,
+        seekRoom,
+        setControlMode: transport?.setControlMode ?? noop,
+        setCohost: transport?.setCohost ?? noop,
+        transferHost: transport?.transferHost ?? noop,
+        bufferingStatus,
+        sendBufferingState: transport?.sendBufferingState ?? noop,
+        setWaitForAll: transport?.setWaitForAll ?? noop,
+        readyCheck,
+        startReadyCheck: transport?.startReadyCheck ?? noop,
+        respondToReadyCheck: transport?.respondToReadyCheck ?? noop,
+        cancelReadyCheck: transport?.cancelReadyCheck ?? noop,
+        joinDenied,
+        rateLimited,
+        setRoomPrivacy: transport?.setRoomPrivacy ?? noop,
+        createInviteLink,
+        kickUser: transport?.kickUser ?? noop,
+        banUser: transport?.banUser ?? noop,
+        muteUser: transport?.muteUser ?? noop,
+        lockRoom: transport?.lockRoom ?? noop,
+        subtitleOffset,
+        setSubtitleOffset: transport?.setSubtitleOffset ?? noop,
       }}
     >
+      {reloadRequired && <UpgradeBanner message={reloadRequired} />}
       {children}
     </SocketContext.Provider>
   );
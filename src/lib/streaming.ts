@@ -0,0 +1,271 @@
+/**
+ * Adaptive streaming (HLS and DASH) for our own `<video>` element.
+ *
+ * hls.js and dash.js feed the element through Media Source Extensions and
+ * switch bitrate with the available bandwidth. Both are loaded on demand, so
+ * viewers who never play a stream don't download them. Safari, which plays
+ * HLS natively, picks the bitrate itself.
+ */
+import type { PlaybackStats } from './playback';
+
+export type StreamType = 'hls' | 'dash';
+
+// One rendition of a stream the viewer can pick
+export interface StreamLevel {
+  index: number;
+  // Short name for the quality menu, such as "720p"
+  label: string;
+  height?: number;
+  bitrate: number;
+}
+
+type StreamEvent = 'change' | 'stall' | 'error';
+
+// Times in a row hls.js may try to recover from a fatal error before we give up
+const MAX_RECOVERY_ATTEMPTS = 3;
+
+export interface StreamController {
+  // Renditions to choose from, once the manifest has loaded
+  getLevels: () => StreamLevel[];
+  // Chosen rendition, or -1 while the bitrate is switched automatically
+  getLevel: () => number;
+  setLevel: (index: number) => void;
+  getStats: () => PlaybackStats;
+  // `change` when the renditions are known or the one playing changes,
+  // `stall` when playback runs out of data, `error` when the stream fails
+  // for good. Returns a function that unsubscribes.
+  on: {
+    (event: 'change' | 'stall', handler: () => void): () => void;
+    (event: 'error', handler: (error: Error) => void): () => void;
+  };
+  // Stop streaming and release the element
+  destroy: () => void;
+}
+
+/**
+ * Tells which kind of manifest a URL points at from its extension
+ *
+ * @param url The manifest URL
+ * @returns 'hls' for .m3u8, 'dash' for .mpd, or null for anything else
+ */
+export const getStreamType = (url: string): StreamType | null => {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.m3u8')) return 'hls';
+  if (path.endsWith('.mpd')) return 'dash';
+  return null;
+};
+
+const createListeners = () => {
+  const listeners = new Map<StreamEvent, Set<(error: Error) => void>>();
+
+  const on = (event: StreamEvent, handler: (error: Error) => void) => {
+    const handlers = listeners.get(event) ?? new Set();
+    handlers.add(handler);
+    listeners.set(event, handlers);
+    return () => {
+      handlers.delete(handler);
+    };
+  };
+
+  // Only `error` is emitted with an error, and only its handlers take one
+  const emit = (event: StreamEvent, error?: Error) => {
+    listeners.get(event)?.forEach(handler => handler(error as Error));
+  };
+
+  return { on, emit, clear: () => listeners.clear() };
+};
+
+const toLevel = (index: number, height: number | undefined, bitrate: number): StreamLevel => ({
+  index,
+  label: height ? `${height}p` : `${Math.round(bitrate / 1000)} kbps`,
+  height: height || undefined,
+  bitrate
+});
+
+// Stats any `<video>` element can tell us
+const getElementStats = (video: HTMLVideoElement): PlaybackStats => {
+  let bufferAhead = 0;
+  for (let i = 0; i < video.buffered.length; i++) {
+    if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+      bufferAhead = video.buffered.end(i) - video.currentTime;
+      break;
+    }
+  }
+
+  return {
+    bufferAhead,
+    droppedFrames: video.getVideoPlaybackQuality?.().droppedVideoFrames
+  };
+};
+
+// Let the browser play the stream itself
+const attachNative = (video: HTMLVideoElement, url: string): StreamController => {
+  const { on, clear } = createListeners();
+  video.src = url;
+
+  return {
+    getLevels: () => [],
+    getLevel: () => -1,
+    setLevel: () => {},
+    getStats: () => getElementStats(video),
+    on,
+    destroy: () => {
+      clear();
+      video.removeAttribute('src');
+      video.load();
+    }
+  };
+};
+
+const attachHls = async (video: HTMLVideoElement, url: string): Promise<StreamController> => {
+  const { default: Hls } = await import('hls.js');
+  if (!Hls.isSupported()) {
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      return attachNative(video, url);
+    }
+    throw new Error('This browser can\'t play HLS streams');
+  }
+
+  const { on, emit, clear } = createListeners();
+  const hls = new Hls();
+  let levels: StreamLevel[] = [];
+  let selected = -1;
+  // Fatal errors recovered from since a fragment last made it into the buffer
+  let recoveryAttempts = 0;
+
+  const fail = (message: string) => {
+    hls.destroy();
+    emit('error', new Error(message));
+  };
+
+  hls.on(Hls.Events.MANIFEST_PARSED, () => {
+    levels = hls.levels.map((level, index) => toLevel(index, level.height, level.bitrate));
+    emit('change');
+  });
+  hls.on(Hls.Events.LEVEL_SWITCHED, () => emit('change'));
+  hls.on(Hls.Events.FRAG_BUFFERED, () => {
+    recoveryAttempts = 0;
+  });
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (data.details === Hls.ErrorDetails.BUFFER_STALLED_ERROR) {
+      emit('stall');
+    }
+    if (!data.fatal) return;
+
+    // Recover from what we can, as hls.js recommends, unless recovering keeps
+    // failing
+    const recoverable = data.type === Hls.ErrorTypes.NETWORK_ERROR || data.type === Hls.ErrorTypes.MEDIA_ERROR;
+    if (!recoverable || recoveryAttempts >= MAX_RECOVERY_ATTEMPTS) {
+      console.error('Fatal HLS error:', data);
+      fail(data.type === Hls.ErrorTypes.NETWORK_ERROR
+        ? 'The stream stopped loading'
+        : 'The stream couldn\'t be played');
+      return;
+    }
+
+    recoveryAttempts++;
+    if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+      hls.startLoad();
+    } else {
+      hls.recoverMediaError();
+    }
+  });
+
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  return {
+    getLevels: () => levels,
+    getLevel: () => selected,
+    setLevel: (index) => {
+      selected = index;
+      // Switch from the next segment on, rather than flushing the buffer
+      hls.nextLevel = index;
+    },
+    getStats: () => {
+      const playing = hls.levels[hls.currentLevel];
+      return {
+        ...getElementStats(video),
+        bandwidth: hls.bandwidthEstimate || undefined,
+        bitrate: playing?.bitrate,
+        height: playing?.height || undefined
+      };
+    },
+    on,
+    destroy: () => {
+      clear();
+      hls.destroy();
+    }
+  };
+};
+
+const attachDash = async (video: HTMLVideoElement, url: string): Promise<StreamController> => {
+  const dashjs = await import('dashjs');
+  const { events } = dashjs.MediaPlayer;
+  const { on, emit, clear } = createListeners();
+  const player = dashjs.MediaPlayer().create();
+  let selected = -1;
+
+  player.on(events.STREAM_INITIALIZED, () => emit('change'));
+  player.on(events.QUALITY_CHANGE_RENDERED, () => emit('change'));
+  player.on(events.BUFFER_EMPTY, (e) => {
+    if (e.mediaType === 'video') {
+      emit('stall');
+    }
+  });
+  // dash.js retries failed requests itself, and only reports errors it gave up
+  // on
+  player.on(events.ERROR, (e) => {
+    console.error('DASH error:', e);
+    player.reset();
+    emit('error', new Error((typeof e.error === 'object' && e.error.message) || 'The stream couldn\'t be played'));
+  });
+
+  player.initialize(video, url, false);
+
+  return {
+    getLevels: () => player.getRepresentationsByType('video')
+      .map((representation, index) => toLevel(index, representation.height, representation.bandwidth)),
+    getLevel: () => selected,
+    setLevel: (index) => {
+      selected = index;
+      player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: index < 0 } } } });
+      if (index >= 0) {
+        player.setRepresentationForTypeByIndex('video', index);
+      }
+    },
+    getStats: () => {
+      const playing = player.getCurrentRepresentationForType('video');
+      // dash.js measures throughput in kbit/s
+      const throughput = player.getAverageThroughput('video');
+      return {
+        ...getElementStats(video),
+        bandwidth: throughput ? throughput * 1000 : undefined,
+        bitrate: playing?.bandwidth,
+        height: playing?.height || undefined
+      };
+    },
+    on,
+    destroy: () => {
+      clear();
+      player.reset();
+    }
+  };
+};
+
+/**
+ * Starts streaming a manifest into a `<video>` element
+ *
+ * @param video The element to play the stream in
+ * @param url The HLS or DASH manifest URL
+ * @param type The kind of manifest, if its URL doesn't tell
+ * @returns A controller for the stream's renditions and stats
+ */
+export const attachStream = (video: HTMLVideoElement, url: string, type?: StreamType): Promise<StreamController> => {
+  const streamType = type || getStreamType(url);
+  if (streamType === 'dash') {
+    return attachDash(video, url);
+  }
+  // Manifests without a telling extension are most often HLS
+  return attachHls(video, url);
+};
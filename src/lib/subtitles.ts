@@ -0,0 +1,208 @@
+/**
+ * Subtitle tracks.
+ *
+ * Movies carry their subtitles as WebVTT text in their Firestore document;
+ * SRT files are converted when they're uploaded. Players don't render the
+ * tracks themselves: the room player draws the current cue over whatever
+ * source is playing, so each viewer's language, offset and styling work the
+ * same everywhere.
+ */
+
+export interface SubtitleTrack {
+  // BCP 47 language code, such as "en" or "ja"
+  language: string;
+  // Name shown in the language menu, such as "English"
+  label: string;
+  // The track, as WebVTT
+  vtt: string;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type SubtitleSize = 'small' | 'medium' | 'large';
+
+export type SubtitleBackground = 'none' | 'translucent' | 'solid';
+
+// How a viewer likes their subtitles. Kept in this browser, since every
+// viewer in a room picks their own.
+export interface SubtitlePreferences {
+  // Language of the track to show; null turns subtitles off, and while unset
+  // the browser's language is used
+  language?: string | null;
+  size: SubtitleSize;
+  background: SubtitleBackground;
+}
+
+// Firestore documents are limited to 1 MiB, which a movie's subtitles share
+// with the rest of its fields. The rest is left for the document's name, its
+// `addedOn` timestamp and Firestore's own overhead.
+export const MAX_MOVIE_DOCUMENT_SIZE = 1024 * 1024 - 1024;
+
+const utf8Encoder = new TextEncoder();
+
+/**
+ * Size of a value as Firestore counts it towards the document limit: strings
+ * and field names take their UTF-8 bytes plus one, numbers eight bytes
+ *
+ * @param value A document's fields, or one of their values
+ * @returns Its size in bytes
+ */
+export const getFirestoreSize = (value: unknown): number => {
+  if (typeof value === 'string') return utf8Encoder.encode(value).byteLength + 1;
+  if (typeof value === 'number') return 8;
+  if (Array.isArray(value)) return value.reduce((size: number, item) => size + getFirestoreSize(item), 0);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce(
+      (size, [field, fieldValue]) => size + getFirestoreSize(field) + getFirestoreSize(fieldValue),
+      0
+    );
+  }
+  // Booleans and null
+  return 1;
+};
+
+const SUBTITLE_PREFERENCES_STORAGE_KEY = 'moviemeet-subtitles';
+
+const DEFAULT_PREFERENCES: SubtitlePreferences = {
+  size: 'medium',
+  background: 'translucent'
+};
+
+// "01:02:03.456", "02:03.456" or SRT's "01:02:03,456", in seconds
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+const parseTimestamp = (timestamp: string): number | null => {
+  const match = timestamp.match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  );
+};
+
+const normalizeLineEndings = (text: string) => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+/**
+ * Whether a subtitle file is already WebVTT
+ */
+export const isVtt = (text: string): boolean => normalizeLineEndings(text).trimStart().startsWith('WEBVTT');
+
+/**
+ * Converts SubRip (SRT) subtitles to WebVTT
+ *
+ * @param srt The contents of an .srt file
+ * @returns The same cues as WebVTT
+ */
+export const srtToVtt = (srt: string): string => {
+  const body = normalizeLineEndings(srt)
+    .trim()
+    .split('\n')
+    // Only timing lines use a comma before the milliseconds
+    .map(line => (line.includes('-->') ? line.replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2') : line))
+    .join('\n');
+
+  return `WEBVTT\n\n${body}\n`;
+};
+
+const ENTITIES: { [entity: string]: string } = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': ''
+};
+
+// Cue text without markup such as <i> or <c.yellow>
+const toPlainText = (text: string) =>
+  text.replace(/<[^>]+>/g, '').replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, entity => ENTITIES[entity]);
+
+/**
+ * Parses the cues of a WebVTT track
+ *
+ * @param vtt The track, as WebVTT
+ * @returns Its cues in start order, as plain text
+ */
+export const parseVtt = (vtt: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  for (const block of normalizeLineEndings(vtt).split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    // Header, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    const [startText, endText] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+    const text = toPlainText(lines.slice(timingIndex + 1).join('\n')).trim();
+    if (start === null || end === null || !text) continue;
+
+    cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Finds the text to show at a position
+ *
+ * @param cues The track's cues, in start order
+ * @param time Position in the movie, in seconds, already offset
+ * @returns The text of every cue showing then, or null
+ */
+export const getCueText = (cues: SubtitleCue[], time: number): string | null => {
+  const showing = [];
+  for (const cue of cues) {
+    if (cue.start > time) break;
+    if (cue.end > time) {
+      showing.push(cue.text);
+    }
+  }
+  return showing.length > 0 ? showing.join('\n') : null;
+};
+
+/**
+ * Picks the track to show by default: the viewer's last choice, otherwise
+ * one in the browser's language
+ */
+export const getDefaultTrack = (tracks: SubtitleTrack[], preferences: SubtitlePreferences): SubtitleTrack | null => {
+  if (preferences.language === null) return null;
+
+  const chosen = tracks.find(track => track.language === preferences.language);
+  if (chosen) return chosen;
+
+  const browserLanguages = navigator.languages ?? [navigator.language];
+  const languages = preferences.language ? [preferences.language, ...browserLanguages] : browserLanguages;
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    const track = tracks.find(candidate => candidate.language.toLowerCase().split('-')[0] === base);
+    if (track) return track;
+  }
+  return null;
+};
+
+export const loadSubtitlePreferences = (): SubtitlePreferences => {
+  try {
+    const stored = localStorage.getItem(SUBTITLE_PREFERENCES_STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const saveSubtitlePreferences = (preferences: SubtitlePreferences) => {
+  try {
+    localStorage.setItem(SUBTITLE_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage unavailable: the choice only lasts for the page
+  }
+};
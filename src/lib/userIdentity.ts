@@ -0,0 +1,40 @@
+/**
+ * Stable identity for this browser.
+ *
+ * Users are identified by an ID that is generated once and kept in
+ * localStorage, so it survives reloads and name changes. The display name is
+ * only a label and may be shared by several people.
+ */
+
+const USER_ID_STORAGE_KEY = 'moviemeet-user-id';
+
+const generateUserId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return `u-${crypto.randomUUID()}`;
+  }
+  return `u-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+/**
+ * Returns this browser's user ID, creating it on first use.
+ * Falls back to an ID that only lasts for the page if storage is unavailable.
+ */
+export const getClientUserId = (() => {
+  let cachedId: string | null = null;
+
+  return (): string => {
+    if (cachedId) return cachedId;
+
+    try {
+      cachedId = localStorage.getItem(USER_ID_STORAGE_KEY);
+      if (!cachedId) {
+        cachedId = generateUserId();
+        localStorage.setItem(USER_ID_STORAGE_KEY, cachedId);
+      }
+    } catch {
+      cachedId = generateUserId();
+    }
+
+    return cachedId;
+  };
+})();
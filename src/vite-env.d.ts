@@ -9,6 +9,7 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string
   readonly VITE_FIREBASE_APP_ID: string
   readonly VITE_CLOUDINARY_CLOUD_NAME: string
+  readonly VITE_ARCHIVE_PROXY_URL?: string
 }
 
 interface ImportMeta {